@@ -1,42 +1,96 @@
 /**
  * ACP Client — JSON-RPC 2.0 client for kiro-cli acp.
  * Spawns a persistent kiro-cli process and communicates over stdin/stdout.
+ *
+ * One line listener dispatches every message: responses settle the matching
+ * pending request, session updates feed the active prompt turn (and its
+ * `onEvent` listener), and requests
+ * from the agent are served by AcpRequestHandler. If the process exits,
+ * everything pending is rejected and the next call starts a fresh process.
  */
 
 import { spawn, ChildProcess } from "child_process";
 import { createInterface, Interface } from "readline";
+import { AgentEvent } from "../types.js";
+import {
+  AcpCancelledError,
+  AcpProcessExitedError,
+  AcpRpcError,
+  AcpTimeoutError,
+} from "./errors.js";
+import { parseSessionUpdate } from "./events.js";
+import { AcpRequestHandler, Authorize, RpcError, RPC_INTERNAL_ERROR } from "./requests.js";
+
+export interface AcpClientOptions {
+  /** Timeout for ordinary requests (initialize, session/new, commands). */
+  requestTimeoutMs?: number;
+  /** Directory the agent's file and terminal requests are confined to (default: cwd). */
+  projectDir?: string;
+  /** Decides the agent's file, terminal and permission requests (default: allow all). */
+  authorize?: Authorize;
+}
+
+export interface PromptOptions {
+  /** Timeout for the whole prompt turn. */
+  timeoutMs?: number;
+  /** Aborting sends `session/cancel` and rejects with AcpCancelledError. */
+  signal?: AbortSignal;
+  /** Receives the turn's message chunks, tool calls and plan updates as they arrive. */
+  onEvent?: (event: AgentEvent) => void;
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (v: any) => void;
+  reject: (e: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+interface Turn {
+  text: string;
+  end: () => void;
+  onEvent?: (event: AgentEvent) => void;
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+const DEFAULT_PROMPT_TIMEOUT_MS = 300_000;
+/** Bytes of stderr kept for error messages. */
+const STDERR_TAIL = 4096;
 
 export class AcpClient {
   private process?: ChildProcess;
   private reader?: Interface;
+  private starting?: Promise<void>;
   private reqId = 0;
-  private pending = new Map<number, { resolve: (v: any) => void; reject: (e: any) => void }>();
-
-  async start(): Promise<void> {
-    const kiroPath = process.env.KIRO_CLI_PATH || "kiro-cli";
-
-    this.process = spawn(kiroPath, ["acp"], {
-      stdio: ["pipe", "pipe", "pipe"],
-    });
-
-    this.reader = createInterface({ input: this.process.stdout! });
-    this.reader.on("line", (line) => this.handleLine(line));
+  private pending = new Map<number, PendingRequest>();
+  private turns = new Map<string, Turn>();
+  private stderrTail = "";
+  private stopping = false;
+  private requestTimeoutMs: number;
+  private requests: AcpRequestHandler;
 
-    // Initialize
-    const result = await this.send("initialize", {
-      protocolVersion: 1,
-      clientCapabilities: {
-        fs: { readTextFile: true, writeTextFile: true },
-        terminal: true,
-      },
-      clientInfo: { name: "kiro-workflows", version: "1.0.0" },
-    });
+  constructor(opts: AcpClientOptions = {}) {
+    this.requestTimeoutMs = opts.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.requests = new AcpRequestHandler(opts.projectDir ?? process.cwd(), opts.authorize);
+  }
 
-    const version = result?.agentInfo?.version || "unknown";
-    process.stderr.write(`[acp] Connected to kiro-cli ${version}\n`);
+  /**
+   * Start the process and run the initialize handshake. Safe to call again —
+   * concurrent callers share one start, and a dead process is replaced.
+   */
+  async start(): Promise<void> {
+    if (this.process) return;
+    if (!this.starting) {
+      this.starting = this.spawnAndInitialize().finally(() => {
+        this.starting = undefined;
+      });
+    }
+    return this.starting;
   }
 
   async stop(): Promise<void> {
+    this.stopping = true;
+    this.requests.dispose();
     this.process?.kill();
     this.reader?.close();
   }
@@ -56,89 +110,231 @@ export class AcpClient {
     });
   }
 
-  async prompt(sessionId: string, text: string): Promise<string> {
-    const id = ++this.reqId;
+  /**
+   * Send a prompt and collect the streamed reply until the turn ends.
+   */
+  async prompt(sessionId: string, text: string, opts: PromptOptions = {}): Promise<string> {
+    await this.start();
+    if (opts.signal?.aborted) throw new AcpCancelledError(sessionId);
 
-    // Send the prompt request
-    const request = JSON.stringify({
-      jsonrpc: "2.0",
-      id,
-      method: "session/prompt",
-      params: {
-        sessionId,
-        content: [{ type: "text", text }],
-      },
+    let turn!: Turn;
+    const turnEnded = new Promise<void>((resolve) => {
+      turn = { text: "", end: resolve, onEvent: opts.onEvent };
     });
-    this.process!.stdin!.write(request + "\n");
-
-    // Collect streaming response until TurnEnd
-    return new Promise((resolve) => {
-      let fullResponse = "";
-
-      const originalHandler = this.handleLine.bind(this);
-      const streamHandler = (line: string) => {
-        try {
-          const msg = JSON.parse(line);
-
-          // Check for notifications (streaming)
-          if (msg.method === "session/notification") {
-            const kind = msg.params?.kind || msg.params?.type;
-            if (kind === "AgentMessageChunk") {
-              fullResponse += msg.params?.content || "";
-            } else if (kind === "TurnEnd") {
-              this.reader!.removeListener("line", streamHandler);
-              this.reader!.on("line", (l) => this.handleLine(l));
-              resolve(fullResponse);
-            }
-          }
-
-          // Check for direct response (non-streaming)
-          if (msg.id === id && msg.result !== undefined) {
-            this.reader!.removeListener("line", streamHandler);
-            this.reader!.on("line", (l) => this.handleLine(l));
-            resolve(fullResponse || JSON.stringify(msg.result));
-          }
-        } catch {
-          // Skip non-JSON lines
-        }
+    this.turns.set(sessionId, turn);
+
+    const { id, promise } = this.request(
+      "session/prompt",
+      { sessionId, content: [{ type: "text", text }] },
+      opts.timeoutMs ?? DEFAULT_PROMPT_TIMEOUT_MS,
+    );
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        this.cancel(sessionId);
+        reject(new AcpCancelledError(sessionId));
       };
+      opts.signal?.addEventListener("abort", onAbort, { once: true });
+    });
+
+    try {
+      const result = await Promise.race([promise, turnEnded.then(() => undefined), aborted]);
+      return turn.text || (result !== undefined ? JSON.stringify(result) : "");
+    } catch (err) {
+      if (err instanceof AcpTimeoutError) {
+        // Don't leave the agent working on a turn nobody is waiting for
+        this.cancel(sessionId);
+      }
+      throw err;
+    } finally {
+      this.forget(id);
+      this.turns.delete(sessionId);
+      if (onAbort) opts.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Ask the agent to stop the current turn in a session.
+   */
+  cancel(sessionId: string) {
+    this.write({ jsonrpc: "2.0", method: "session/cancel", params: { sessionId } });
+  }
+
+  private async spawnAndInitialize(): Promise<void> {
+    const kiroPath = process.env.KIRO_CLI_PATH || "kiro-cli";
+    this.stopping = false;
+    this.stderrTail = "";
+
+    const child = spawn(kiroPath, ["acp"], {
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.process = child;
 
-      this.reader!.removeAllListeners("line");
-      this.reader!.on("line", streamHandler);
+    this.reader = createInterface({ input: child.stdout! });
+    this.reader.on("line", (line) => this.handleLine(line));
+
+    child.stderr!.setEncoding("utf-8");
+    child.stderr!.on("data", (chunk: string) => {
+      this.stderrTail = (this.stderrTail + chunk).slice(-STDERR_TAIL);
+    });
+    child.stdin!.on("error", () => {
+      // EPIPE after the process died — the exit handler reports it
     });
+    child.on("error", () => this.handleExit(child, null, null));
+    child.on("exit", (code, signal) => this.handleExit(child, code, signal));
+
+    // Initialize
+    let result: any;
+    try {
+      result = await this.send("initialize", {
+        protocolVersion: 1,
+        clientCapabilities: {
+          fs: { readTextFile: true, writeTextFile: true },
+          terminal: true,
+        },
+        clientInfo: { name: "kiro-workflows", version: "1.0.0" },
+      }, false);
+    } catch (err) {
+      // A process that never finished the handshake is no use — the next call starts over
+      if (this.process === child) this.process = undefined;
+      child.kill();
+      throw err;
+    }
+
+    const version = result?.agentInfo?.version || "unknown";
+    process.stderr.write(`[acp] Connected to kiro-cli ${version}\n`);
+  }
+
+  /**
+   * Reject everything in flight and forget the process, so the next call
+   * starts a new one.
+   */
+  private handleExit(child: ChildProcess, code: number | null, signal: string | null) {
+    if (this.process !== child) return; // Already handled
+    this.process = undefined;
+    this.reader?.close();
+    this.reader = undefined;
+
+    const err = new AcpProcessExitedError(code, signal, this.stderrTail);
+    for (const [id, req] of this.pending) {
+      if (req.timer) clearTimeout(req.timer);
+      this.pending.delete(id);
+      req.reject(err);
+    }
+    if (!this.stopping) {
+      process.stderr.write(`[acp] ${err.message}\n`);
+    }
   }
 
-  private async send(method: string, params: any): Promise<any> {
+  private async send(method: string, params: any, ensureStarted = true): Promise<any> {
+    if (ensureStarted) await this.start();
+    return this.request(method, params, this.requestTimeoutMs).promise;
+  }
+
+  private request(method: string, params: any, timeoutMs: number): { id: number; promise: Promise<any> } {
     const id = ++this.reqId;
 
-    return new Promise((resolve, reject) => {
-      this.pending.set(id, { resolve, reject });
+    const promise = new Promise((resolve, reject) => {
+      if (!this.process) {
+        reject(new AcpProcessExitedError(null, null, this.stderrTail));
+        return;
+      }
 
-      const request = JSON.stringify({
-        jsonrpc: "2.0",
-        id,
-        method,
-        params,
-      });
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        // A stalled handshake is worth retrying; a stalled prompt is not
+        reject(new AcpTimeoutError(method, timeoutMs, method !== "session/prompt"));
+      }, timeoutMs);
+      timer.unref();
 
-      this.process!.stdin!.write(request + "\n");
+      this.pending.set(id, { method, resolve, reject, timer });
+      this.write({ jsonrpc: "2.0", id, method, params });
     });
+
+    return { id, promise };
+  }
+
+  /** Drop a pending request without settling it. */
+  private forget(id: number) {
+    const req = this.pending.get(id);
+    if (req?.timer) clearTimeout(req.timer);
+    this.pending.delete(id);
+  }
+
+  private write(msg: object) {
+    this.process?.stdin?.write(JSON.stringify(msg) + "\n");
   }
 
   private handleLine(line: string) {
+    let msg: any;
     try {
-      const msg = JSON.parse(line);
-      if (msg.id && this.pending.has(msg.id)) {
-        const { resolve, reject } = this.pending.get(msg.id)!;
-        this.pending.delete(msg.id);
-        if (msg.error) {
-          reject(msg.error);
-        } else {
-          resolve(msg.result);
-        }
-      }
+      msg = JSON.parse(line);
     } catch {
-      // Skip non-JSON
+      return; // Skip non-JSON
+    }
+    if (!msg || typeof msg !== "object") return;
+
+    if (msg.method !== undefined && msg.id !== undefined) {
+      this.handleRequest(msg);
+    } else if (msg.method !== undefined) {
+      this.handleNotification(msg);
+    } else if (msg.id !== undefined) {
+      this.handleResponse(msg);
     }
   }
+
+  private handleResponse(msg: any) {
+    const req = this.pending.get(msg.id);
+    if (!req) return; // Timed out or forgotten
+    this.forget(msg.id);
+
+    if (msg.error) {
+      req.reject(new AcpRpcError(req.method, msg.error.code ?? -32603, msg.error.message ?? "Unknown error", msg.error.data));
+    } else {
+      req.resolve(msg.result);
+    }
+  }
+
+  /**
+   * Streaming updates for a prompt turn. Accepts both the `session/notification`
+   * shape (`kind: AgentMessageChunk | TurnEnd`) and ACP's `session/update`.
+   */
+  private handleNotification(msg: any) {
+    if (msg.method !== "session/notification" && msg.method !== "session/update") return;
+
+    const params = msg.params ?? {};
+    const turn = this.turns.get(params.sessionId) ?? (this.turns.size === 1 ? [...this.turns.values()][0] : undefined);
+    if (!turn) return;
+
+    const event = parseSessionUpdate(params);
+    if (event === "turn_end") {
+      turn.end();
+      return;
+    }
+    if (!event) return;
+    if (event.type === "message") turn.text += event.text;
+
+    try {
+      turn.onEvent?.(event);
+    } catch (err: any) {
+      // A broken listener mustn't take down the connection
+      process.stderr.write(`[acp] Event listener failed: ${err.message}\n`);
+    }
+  }
+
+  /**
+   * Requests from the agent. Always answered — a dropped request stalls the turn.
+   */
+  private handleRequest(msg: any) {
+    this.requests.handle(msg.method, msg.params).then(
+      (result) => this.write({ jsonrpc: "2.0", id: msg.id, result: result ?? null }),
+      (err: any) => {
+        const error = err instanceof RpcError
+          ? { code: err.code, message: err.message, ...(err.data !== undefined ? { data: err.data } : {}) }
+          : { code: RPC_INTERNAL_ERROR, message: err?.message ?? String(err) };
+        this.write({ jsonrpc: "2.0", id: msg.id, error });
+      },
+    );
+  }
 }
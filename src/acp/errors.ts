@@ -0,0 +1,46 @@
+/**
+ * Typed ACP errors. `retryable` tells AgentRunner whether the same call is
+ * worth making again (the process died, a handshake timed out) or not (the
+ * agent answered with an error, the user cancelled).
+ */
+
+export class AcpError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = new.target.name;
+    this.retryable = retryable;
+  }
+}
+
+/** A request got no response in time. */
+export class AcpTimeoutError extends AcpError {
+  constructor(readonly method: string, readonly timeoutMs: number, retryable: boolean) {
+    super(`ACP request '${method}' timed out after ${timeoutMs}ms`, retryable);
+  }
+}
+
+/** The `kiro-cli acp` process exited (or never started) with requests in flight. */
+export class AcpProcessExitedError extends AcpError {
+  constructor(readonly code: number | null, readonly signal: string | null, readonly stderr: string) {
+    super(
+      `kiro-cli acp exited (${signal ?? `code ${code}`})` + (stderr ? `: ${stderr.trim().split("\n").slice(-3).join(" | ")}` : ""),
+      true,
+    );
+  }
+}
+
+/** The agent answered a request with a JSON-RPC error. */
+export class AcpRpcError extends AcpError {
+  constructor(readonly method: string, readonly code: number, message: string, readonly data?: unknown) {
+    super(`ACP '${method}' failed (${code}): ${message}`, false);
+  }
+}
+
+/** A prompt turn was cancelled with `session/cancel`. */
+export class AcpCancelledError extends AcpError {
+  constructor(readonly sessionId: string) {
+    super(`ACP prompt cancelled (session ${sessionId})`, false);
+  }
+}
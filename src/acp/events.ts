@@ -0,0 +1,85 @@
+/**
+ * Session update parsing — turns `session/update` (ACP) and
+ * `session/notification` (older kiro-cli) payloads into AgentEvents.
+ */
+
+import { AgentEvent, PlanEntry } from "../types.js";
+
+/** kiro-cli's `kind` names → ACP's `sessionUpdate` names. */
+const KIND_ALIASES: Record<string, string> = {
+  AgentMessageChunk: "agent_message_chunk",
+  AgentThoughtChunk: "agent_thought_chunk",
+  ToolCall: "tool_call",
+  ToolCallUpdate: "tool_call_update",
+  Plan: "plan",
+  TurnEnd: "turn_end",
+};
+
+/**
+ * Parse one notification's params. Returns `"turn_end"` when the turn is
+ * over, or undefined for updates we don't track (mode changes, commands).
+ */
+export function parseSessionUpdate(params: any): AgentEvent | "turn_end" | undefined {
+  const update = params?.update ?? params ?? {};
+  const raw = update.sessionUpdate ?? params?.kind ?? params?.type;
+  const kind = KIND_ALIASES[raw] ?? raw;
+
+  switch (kind) {
+    case "agent_message_chunk":
+      return { type: "message", text: contentText(update.content) };
+    case "agent_thought_chunk":
+      return { type: "thought", text: contentText(update.content) };
+    case "tool_call": {
+      // In the older shape `kind` names the notification, not the tool
+      const toolKind = update.sessionUpdate ? update.kind : undefined;
+      return {
+        type: "tool_call",
+        id: String(update.toolCallId ?? ""),
+        title: String(update.title ?? toolKind ?? "tool"),
+        kind: toolKind,
+        status: update.status ?? "pending",
+        input: update.rawInput,
+      };
+    }
+    case "tool_call_update": {
+      const output = contentText(update.content) || (update.rawOutput !== undefined ? stringify(update.rawOutput) : "");
+      return {
+        type: "tool_call_update",
+        id: String(update.toolCallId ?? ""),
+        ...(update.title ? { title: String(update.title) } : {}),
+        ...(update.status ? { status: update.status } : {}),
+        ...(output ? { output } : {}),
+      };
+    }
+    case "plan":
+      return { type: "plan", entries: Array.isArray(update.entries) ? update.entries.map(toPlanEntry) : [] };
+    case "turn_end":
+      return "turn_end";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Text from a content block, a list of blocks or tool-call content
+ * (`{ type: "content", content: {...} }`). Non-text blocks are skipped.
+ */
+function contentText(content: any): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) return content.map(contentText).join("");
+  if (content?.type === "content") return contentText(content.content);
+  if (typeof content?.text === "string") return content.text;
+  return "";
+}
+
+function toPlanEntry(entry: any): PlanEntry {
+  return {
+    content: String(entry?.content ?? ""),
+    status: entry?.status ?? "pending",
+    ...(entry?.priority ? { priority: entry.priority } : {}),
+  };
+}
+
+function stringify(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
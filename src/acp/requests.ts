@@ -0,0 +1,253 @@
+/**
+ * Agent → client requests. kiro-cli calls back into us to read and write
+ * files, run commands and ask for permission; every path and working
+ * directory is confined to the project directory, and an optional
+ * `authorize` hook (the permission policy) decides each call.
+ */
+
+import { spawn, ChildProcess } from "child_process";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, isAbsolute, relative, resolve, sep } from "path";
+import { ToolKind } from "../types.js";
+
+/** JSON-RPC error codes used in replies. */
+export const RPC_INVALID_PARAMS = -32602;
+export const RPC_METHOD_NOT_FOUND = -32601;
+export const RPC_INTERNAL_ERROR = -32603;
+export const RPC_RESOURCE_NOT_FOUND = -32002;
+export const RPC_PERMISSION_DENIED = -32001;
+
+/** Decides whether the agent in a session may make a call. */
+export type Authorize = (sessionId: string, kind: ToolKind, target: string) => { allowed: boolean; reason: string };
+
+/** Thrown by a handler to answer with a specific JSON-RPC error. */
+export class RpcError extends Error {
+  constructor(readonly code: number, message: string, readonly data?: unknown) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+interface Terminal {
+  process: ChildProcess;
+  output: string;
+  truncated: boolean;
+  byteLimit: number;
+  exitStatus?: { exitCode: number | null; signal: string | null };
+  exited: Promise<void>;
+}
+
+/** Output kept per terminal when the agent doesn't set `outputByteLimit`. */
+const DEFAULT_OUTPUT_LIMIT = 1024 * 1024;
+
+export class AcpRequestHandler {
+  private projectDir: string;
+  private authorize?: Authorize;
+  private terminals = new Map<string, Terminal>();
+  private terminalSeq = 0;
+  private methods: Record<string, (params: any) => Promise<any> | any> = {
+    "fs/read_text_file": (p) => this.readTextFile(p),
+    "fs/write_text_file": (p) => this.writeTextFile(p),
+    "terminal/create": (p) => this.createTerminal(p),
+    "terminal/output": (p) => this.terminalOutput(p),
+    "terminal/wait_for_exit": (p) => this.waitForExit(p),
+    "terminal/kill": (p) => this.killTerminal(p),
+    "terminal/release": (p) => this.releaseTerminal(p),
+    "session/request_permission": (p) => this.requestPermission(p),
+  };
+
+  constructor(projectDir: string, authorize?: Authorize) {
+    this.projectDir = resolve(projectDir);
+    this.authorize = authorize;
+  }
+
+  /**
+   * Serve one request. Resolves with the JSON-RPC `result`; rejects with an
+   * RpcError (or any Error, reported as an internal error).
+   */
+  async handle(method: string, params: any): Promise<unknown> {
+    const handler = this.methods[method];
+    if (!handler) throw new RpcError(RPC_METHOD_NOT_FOUND, `Method not found: ${method}`);
+    return handler(params ?? {});
+  }
+
+  /** Kill every terminal still running. */
+  dispose() {
+    for (const terminal of this.terminals.values()) {
+      if (!terminal.exitStatus) terminal.process.kill("SIGKILL");
+    }
+    this.terminals.clear();
+  }
+
+  private readTextFile(params: { sessionId?: string; path?: string; line?: number; limit?: number }) {
+    const path = this.resolvePath(params.path);
+    this.check(params.sessionId, "read", path);
+    if (!existsSync(path)) throw new RpcError(RPC_RESOURCE_NOT_FOUND, `File not found: ${params.path}`);
+
+    let content = readFileSync(path, "utf-8");
+    if (params.line !== undefined || params.limit !== undefined) {
+      const start = Math.max((params.line ?? 1) - 1, 0);
+      const lines = content.split("\n");
+      content = lines.slice(start, params.limit !== undefined ? start + params.limit : undefined).join("\n");
+    }
+    return { content };
+  }
+
+  private writeTextFile(params: { sessionId?: string; path?: string; content?: string }) {
+    const path = this.resolvePath(params.path);
+    this.check(params.sessionId, "write", path);
+    if (typeof params.content !== "string") throw new RpcError(RPC_INVALID_PARAMS, "'content' must be a string");
+
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, params.content);
+    return null;
+  }
+
+  private createTerminal(params: {
+    sessionId?: string;
+    command?: string;
+    args?: string[];
+    env?: { name: string; value: string }[];
+    cwd?: string;
+    outputByteLimit?: number;
+  }) {
+    if (!params.command) throw new RpcError(RPC_INVALID_PARAMS, "'command' is required");
+    const cwd = params.cwd ? this.resolvePath(params.cwd) : this.projectDir;
+    this.check(params.sessionId, "execute", [params.command, ...(params.args ?? [])].join(" "));
+
+    const env = { ...process.env };
+    for (const { name, value } of params.env ?? []) env[name] = value;
+
+    // Without args the command is a shell line, as a user would type it
+    const child = params.args?.length
+      ? spawn(params.command, params.args, { cwd, env })
+      : spawn(params.command, { cwd, env, shell: true });
+
+    const terminal: Terminal = {
+      process: child,
+      output: "",
+      truncated: false,
+      byteLimit: params.outputByteLimit ?? DEFAULT_OUTPUT_LIMIT,
+      exited: Promise.resolve(),
+    };
+    const append = (chunk: Buffer) => {
+      terminal.output += chunk.toString("utf-8");
+      // Keep the tail: the end of a command's output is what explains it
+      if (Buffer.byteLength(terminal.output) > terminal.byteLimit) {
+        terminal.output = Buffer.from(terminal.output).subarray(-terminal.byteLimit).toString("utf-8");
+        terminal.truncated = true;
+      }
+    };
+    child.stdout!.on("data", append);
+    child.stderr!.on("data", append);
+    terminal.exited = new Promise((resolveExit) => {
+      child.on("error", (err) => {
+        append(Buffer.from(`${err.message}\n`));
+        terminal.exitStatus = { exitCode: 127, signal: null };
+        resolveExit();
+      });
+      child.on("close", (code, signal) => {
+        terminal.exitStatus ??= { exitCode: code, signal };
+        resolveExit();
+      });
+    });
+
+    const terminalId = `term-${++this.terminalSeq}`;
+    this.terminals.set(terminalId, terminal);
+    return { terminalId };
+  }
+
+  private terminalOutput(params: { terminalId?: string }) {
+    const terminal = this.terminal(params.terminalId);
+    return {
+      output: terminal.output,
+      truncated: terminal.truncated,
+      exitStatus: terminal.exitStatus ?? null,
+    };
+  }
+
+  private async waitForExit(params: { terminalId?: string }) {
+    const terminal = this.terminal(params.terminalId);
+    await terminal.exited;
+    return terminal.exitStatus;
+  }
+
+  private killTerminal(params: { terminalId?: string }) {
+    const terminal = this.terminal(params.terminalId);
+    if (!terminal.exitStatus) terminal.process.kill("SIGTERM");
+    return null;
+  }
+
+  private releaseTerminal(params: { terminalId?: string }) {
+    this.killTerminal(params);
+    this.terminals.delete(params.terminalId!);
+    return null;
+  }
+
+  /**
+   * Unattended runs can't prompt a human: the policy decides, then we pick
+   * the agent's matching "once" option (or cancel if it offers none).
+   */
+  private requestPermission(params: {
+    sessionId?: string;
+    toolCall?: { kind?: string; title?: string; locations?: { path: string }[]; rawInput?: any };
+    options?: { optionId: string; kind?: string }[];
+  }) {
+    const allowed = toolCallTargets(params.toolCall ?? {})
+      .every(({ kind, target }) => this.authorize?.(params.sessionId ?? "", kind, target).allowed ?? true);
+
+    const want = allowed ? "allow" : "reject";
+    const options = params.options ?? [];
+    const choice = options.find((o) => o.kind === `${want}_once`) ?? options.find((o) => o.kind?.startsWith(want));
+    if (!choice) return { outcome: { outcome: "cancelled" } };
+    return { outcome: { outcome: "selected", optionId: choice.optionId } };
+  }
+
+  private check(sessionId: string | undefined, kind: ToolKind, target: string) {
+    const verdict = this.authorize?.(sessionId ?? "", kind, target);
+    if (verdict && !verdict.allowed) {
+      throw new RpcError(RPC_PERMISSION_DENIED, `Denied by workflow policy: ${verdict.reason}`);
+    }
+  }
+
+  private terminal(terminalId: string | undefined): Terminal {
+    const terminal = terminalId ? this.terminals.get(terminalId) : undefined;
+    if (!terminal) throw new RpcError(RPC_RESOURCE_NOT_FOUND, `Unknown terminal: ${terminalId}`);
+    return terminal;
+  }
+
+  /**
+   * Resolve a path the agent sent, refusing anything outside the project.
+   */
+  private resolvePath(path: string | undefined): string {
+    if (typeof path !== "string" || !path) throw new RpcError(RPC_INVALID_PARAMS, "'path' is required");
+    const full = resolve(this.projectDir, path);
+    const rel = relative(this.projectDir, full);
+    if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+      throw new RpcError(RPC_INVALID_PARAMS, `Path is outside the project directory: ${path}`);
+    }
+    return full;
+  }
+}
+
+/**
+ * What a permission request's tool call would touch, in policy terms.
+ */
+function toolCallTargets(toolCall: { kind?: string; title?: string; locations?: { path: string }[]; rawInput?: any }): { kind: ToolKind; target: string }[] {
+  const paths = toolCall.locations?.map((l) => l.path) ?? [];
+  if (paths.length === 0 && typeof toolCall.rawInput?.path === "string") paths.push(toolCall.rawInput.path);
+
+  switch (toolCall.kind) {
+    case "edit":
+    case "delete":
+    case "move":
+      return (paths.length ? paths : ["."]).map((target) => ({ kind: "write" as const, target }));
+    case "read":
+    case "search":
+      return (paths.length ? paths : ["."]).map((target) => ({ kind: "read" as const, target }));
+    case "execute":
+      return [{ kind: "execute", target: String(toolCall.rawInput?.command ?? toolCall.title ?? "") }];
+    default:
+      return [{ kind: "other", target: toolCall.title ?? toolCall.kind ?? "unknown" }];
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * ACP backend — talks JSON-RPC to one persistent `kiro-cli acp` process,
+ * opening a fresh session per call. The agent's tool calls are decided by
+ * the project's permission policy.
+ */
+
+import { RunConfig, ToolKind } from "../types.js";
+import { AcpClient } from "../acp/client.js";
+import { PermissionPolicy, PolicyVerdict } from "../policy.js";
+import { AgentBackend, AgentCallOptions } from "./types.js";
+
+export class AcpBackend implements AgentBackend {
+  readonly name = "acp";
+  private config: RunConfig;
+  private acpClient?: AcpClient;
+  private policy?: PermissionPolicy;
+  /** Live sessions → the agent call they belong to. */
+  private sessions = new Map<string, { agent: string; opts: AgentCallOptions }>();
+
+  constructor(config: RunConfig) {
+    this.config = config;
+  }
+
+  async run(agent: string, prompt: string, opts: AgentCallOptions = {}): Promise<string> {
+    if (!this.acpClient) {
+      this.policy = PermissionPolicy.load(this.config.projectDir);
+      this.acpClient = new AcpClient({
+        projectDir: this.config.projectDir,
+        authorize: (sessionId, kind, target) => this.authorize(sessionId, kind, target),
+      });
+    }
+    // Restarts the process if it died since the last call
+    await this.acpClient.start();
+
+    // Fresh session per invocation (Ralph pattern)
+    const sessionId = await this.acpClient.newSession(this.config.projectDir);
+    this.sessions.set(sessionId, { agent, opts });
+    try {
+      await this.acpClient.setAgent(sessionId, agent);
+      return await this.acpClient.prompt(sessionId, prompt, {
+        timeoutMs: opts.timeoutMs ?? this.config.agentTimeouts?.[agent] ?? this.config.agentTimeoutMs,
+        onEvent: opts.onEvent,
+        signal: opts.signal,
+      });
+    } finally {
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  async cleanup() {
+    if (this.acpClient) {
+      await this.acpClient.stop();
+    }
+  }
+
+  private authorize(sessionId: string, kind: ToolKind, target: string): PolicyVerdict {
+    const session = this.sessions.get(sessionId);
+    if (!session) return { allowed: false, reason: `unknown session '${sessionId}'` };
+
+    const request = { agent: session.agent, kind, target };
+    const verdict = this.policy!.decide(request);
+    session.opts.onPermission?.(request, verdict);
+    return verdict;
+  }
+}
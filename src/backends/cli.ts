@@ -0,0 +1,160 @@
+/**
+ * CLI backend — spawns `kiro-cli --agent <name>` and writes the prompt to its
+ * stdin. Output is streamed line by line while the agent works, so the event
+ * loop (and the terminal UI) keeps running.
+ */
+
+import { spawn, spawnSync } from "child_process";
+import { RunConfig } from "../types.js";
+import { AgentBackend, AgentCallOptions } from "./types.js";
+import { error, warn, log } from "../utils.js";
+import { trackProcessGroup } from "../processes.js";
+
+/** How long a timed-out or cancelled agent gets to exit after SIGTERM before SIGKILL. */
+const KILL_GRACE_MS = 5_000;
+
+export class CliBackend implements AgentBackend {
+  readonly name = "cli";
+  private config: RunConfig;
+  private cliVerified = false;
+
+  constructor(config: RunConfig) {
+    this.config = config;
+  }
+
+  async run(agent: string, prompt: string, opts: AgentCallOptions = {}): Promise<string> {
+    this.verifyCli();
+    if (opts.signal?.aborted) {
+      throw new Error(`Agent '${agent}' cancelled`);
+    }
+
+    const timeoutMs = opts.timeoutMs ?? this.config.agentTimeouts?.[agent] ?? this.config.agentTimeoutMs;
+    if (this.config.verbose) {
+      log(`[agent-runner] Invoking kiro-cli --agent ${agent} (timeout: ${formatTimeout(timeoutMs)})`);
+    }
+
+    return new Promise((resolve, reject) => {
+      // Own process group, so a timeout also reaches anything the agent spawned
+      const child = spawn("kiro-cli", ["--agent", agent], {
+        cwd: this.config.projectDir,
+        stdio: ["pipe", "pipe", "pipe"],
+        detached: true,
+      });
+      const untrack = trackProcessGroup(child.pid);
+      const kill = (signal: NodeJS.Signals) => {
+        try {
+          process.kill(-child.pid!, signal);
+        } catch {
+          child.kill(signal);
+        }
+      };
+
+      let stdout = "";
+      let stderr = "";
+      let partialLine = "";
+      let timedOut = false;
+      let cancelled = false;
+      let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+      // Graceful first, forced if the agent ignores it
+      const stop = () => {
+        kill("SIGTERM");
+        killTimer ??= setTimeout(() => kill("SIGKILL"), KILL_GRACE_MS);
+      };
+      const timer = setTimeout(() => {
+        timedOut = true;
+        stop();
+      }, timeoutMs);
+      const onAbort = () => {
+        cancelled = true;
+        stop();
+      };
+      opts.signal?.addEventListener("abort", onAbort, { once: true });
+
+      child.stdout.setEncoding("utf-8");
+      child.stdout.on("data", (chunk: string) => {
+        stdout += chunk;
+        const lines = (partialLine + chunk).split("\n");
+        partialLine = lines.pop()!;
+        for (const line of lines) opts.onOutput?.(line);
+      });
+      child.stderr.setEncoding("utf-8");
+      child.stderr.on("data", (chunk: string) => {
+        stderr += chunk;
+      });
+
+      // The agent may exit before reading all of stdin
+      child.stdin.on("error", () => {});
+      child.stdin.end(prompt);
+
+      child.on("error", (err) => {
+        untrack();
+        clearTimeout(timer);
+        opts.signal?.removeEventListener("abort", onAbort);
+        reject(new Error(`Could not start kiro-cli: ${err.message}`));
+      });
+
+      child.on("close", (code, signal) => {
+        untrack();
+        clearTimeout(timer);
+        if (killTimer) clearTimeout(killTimer);
+        opts.signal?.removeEventListener("abort", onAbort);
+        if (partialLine) opts.onOutput?.(partialLine);
+
+        if (cancelled) {
+          reject(Object.assign(new Error(`Agent '${agent}' cancelled`), { stdout }));
+          return;
+        }
+
+        if (code === 0 && !timedOut) {
+          resolve(stdout);
+          return;
+        }
+
+        const reason = timedOut
+          ? `timed out after ${formatTimeout(timeoutMs)}`
+          : `exited with ${signal ?? `code ${code}`}`;
+        if (this.config.verbose) {
+          error(`[agent-runner] kiro-cli ${reason}`);
+          if (stderr) error(`[agent-runner] stderr: ${stderr.slice(0, 500)}`);
+        }
+        // If we got some stdout, the agent may have partially succeeded
+        if (stdout.length > 50) {
+          warn(`[agent-runner] Agent ${reason}, returning partial output (${stdout.length} chars)`);
+          resolve(stdout);
+          return;
+        }
+        const detail = timedOut ? reason : stderr.trim() || reason;
+        reject(Object.assign(new Error(`Agent '${agent}' failed: ${detail}`), { stdout }));
+      });
+    });
+  }
+
+  async cleanup() {
+    // Nothing persistent — each call is its own process
+  }
+
+  /**
+   * Verify kiro-cli is installed and authenticated.
+   * Called before the first run to fail fast with a helpful message.
+   */
+  private verifyCli(): void {
+    if (this.cliVerified) return;
+
+    const check = spawnSync("which", ["kiro-cli"], { encoding: "utf-8" });
+    if (check.status !== 0) {
+      throw new Error(
+        "kiro-cli not found. Install it:\n" +
+        "  curl -fsSL https://cli.kiro.dev/install | bash\n" +
+        "  export PATH=\"$HOME/.local/bin:$PATH\"\n" +
+        "  kiro-cli login\n\n" +
+        "Or use --acp mode if Kiro is running as a persistent process."
+      );
+    }
+    this.cliVerified = true;
+  }
+}
+
+function formatTimeout(ms: number): string {
+  return ms % 60_000 === 0 ? `${ms / 60_000}m` : `${ms / 1000}s`;
+}
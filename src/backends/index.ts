@@ -0,0 +1,33 @@
+import { RunConfig } from "../types.js";
+import { AgentBackend, AgentBackendKind } from "./types.js";
+import { CliBackend } from "./cli.js";
+import { AcpBackend } from "./acp.js";
+import { ScriptedBackend } from "./scripted.js";
+
+export type { AgentBackend, AgentBackendKind, AgentCallOptions } from "./types.js";
+export { CliBackend } from "./cli.js";
+export { AcpBackend } from "./acp.js";
+export { ScriptedBackend } from "./scripted.js";
+export type { ScriptedResponse } from "./scripted.js";
+
+/**
+ * Pick the backend a config asks for. `backend` wins; otherwise `useAcp`
+ * chooses between ACP and the CLI.
+ */
+export function createBackend(config: RunConfig): AgentBackend {
+  const backend = config.backend ?? (config.useAcp ? "acp" : "cli");
+  if (typeof backend !== "string") return backend;
+
+  switch (backend) {
+    case "cli":
+      return new CliBackend(config);
+    case "acp":
+      return new AcpBackend(config);
+    case "scripted":
+      return new ScriptedBackend(config);
+    default:
+      throw new Error(`Unknown agent backend: ${backend}. Available: cli, acp, scripted`);
+  }
+}
+
+export const BACKEND_KINDS: AgentBackendKind[] = ["cli", "acp", "scripted"];
@@ -0,0 +1,122 @@
+/**
+ * Scripted backend — answers agent calls from fixture files, with no network
+ * and no kiro-cli. Used to exercise whole pipelines offline (tests, CI).
+ *
+ * Fixtures are `*.json` files in `config.fixturesDir` (default:
+ * `.kiro/fixtures/`), each holding an array of responses. Files are read in
+ * name order; the first response whose agent and prompt pattern match — and
+ * that has uses left — answers the call:
+ *
+ *   [
+ *     { "agent": "planner", "outputFile": "plan.json" },
+ *     { "agent": "verifier", "match": "ID: add-login", "times": 1, "output": "STATUS: retry\nISSUES:\n- no test" },
+ *     { "agent": "verifier", "output": "STATUS: done" },
+ *     { "agent": "*", "output": "ok" }
+ *   ]
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, isAbsolute, join, resolve } from "path";
+import { RunConfig } from "../types.js";
+import { AgentBackend, AgentCallOptions } from "./types.js";
+
+export interface ScriptedResponse {
+  /** Agent name, or "*" for any agent. */
+  agent: string;
+  /** Regular expression tested against the prompt. */
+  match?: string;
+  output?: string;
+  /** Read the output from this file, relative to the fixture directory. */
+  outputFile?: string;
+  /** Number of calls this response answers (default: unlimited). */
+  times?: number;
+  /** Files to write in the project directory before answering, as an agent would. */
+  files?: Record<string, string>;
+  /** Fail the call with this message instead of answering. */
+  error?: string;
+}
+
+interface LoadedResponse extends ScriptedResponse {
+  pattern?: RegExp;
+  used: number;
+  dir: string;
+}
+
+export class ScriptedBackend implements AgentBackend {
+  readonly name = "scripted";
+  private config: RunConfig;
+  private responses?: LoadedResponse[];
+
+  constructor(config: RunConfig) {
+    this.config = config;
+  }
+
+  async run(agent: string, prompt: string, opts: AgentCallOptions = {}): Promise<string> {
+    if (opts.signal?.aborted) {
+      throw new Error(`Agent '${agent}' cancelled`);
+    }
+    const response = this.load().find(
+      (r) =>
+        (r.agent === "*" || r.agent === agent) &&
+        (!r.pattern || r.pattern.test(prompt)) &&
+        (r.times === undefined || r.used < r.times)
+    );
+    if (!response) {
+      throw new Error(`No scripted response for agent '${agent}' (prompt starts: "${prompt.slice(0, 80)}")`);
+    }
+    response.used++;
+
+    for (const [file, content] of Object.entries(response.files ?? {})) {
+      const path = join(this.config.projectDir, file);
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, content);
+    }
+
+    if (response.error) {
+      throw new Error(`Agent '${agent}' failed: ${response.error}`);
+    }
+    const output = response.outputFile
+      ? readFileSync(join(response.dir, response.outputFile), "utf-8")
+      : response.output ?? "";
+    output.split("\n").forEach((line) => opts.onOutput?.(line));
+    return output;
+  }
+
+  async cleanup() {
+    // Nothing to release
+  }
+
+  private load(): LoadedResponse[] {
+    if (this.responses) return this.responses;
+
+    const dir = this.fixturesDir();
+    if (!existsSync(dir)) {
+      throw new Error(`Scripted backend: fixture directory not found: ${dir}`);
+    }
+
+    this.responses = [];
+    for (const file of readdirSync(dir).filter((f) => f.endsWith(".json")).sort()) {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(readFileSync(join(dir, file), "utf-8"));
+      } catch (e: any) {
+        throw new Error(`Scripted backend: invalid JSON in ${file}: ${e.message}`);
+      }
+      if (!Array.isArray(raw)) {
+        throw new Error(`Scripted backend: ${file} must contain an array of responses`);
+      }
+      for (const r of raw as ScriptedResponse[]) {
+        if (typeof r?.agent !== "string") {
+          throw new Error(`Scripted backend: every response in ${file} needs an "agent"`);
+        }
+        this.responses.push({ ...r, pattern: r.match ? new RegExp(r.match) : undefined, used: 0, dir });
+      }
+    }
+    return this.responses;
+  }
+
+  private fixturesDir(): string {
+    const dir = this.config.fixturesDir ?? join(".kiro", "fixtures");
+    return isAbsolute(dir) ? dir : resolve(this.config.projectDir, dir);
+  }
+}
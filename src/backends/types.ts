@@ -0,0 +1,31 @@
+/**
+ * Agent backends — how an agent call actually reaches an agent.
+ */
+
+import { AgentEvent } from "../types.js";
+import { PolicyRequest, PolicyVerdict } from "../policy.js";
+
+export interface AgentCallOptions {
+  /** Called with each line of agent output as it arrives. */
+  onOutput?: (line: string) => void;
+  /** Called with tool calls, plan updates and message chunks (ACP backend only). */
+  onEvent?: (event: AgentEvent) => void;
+  /** Called with each permission policy decision made during the call. */
+  onPermission?: (request: PolicyRequest, verdict: PolicyVerdict) => void;
+  /** Overrides the configured agent timeout for this call. */
+  timeoutMs?: number;
+  /** Aborting cancels the call; it then rejects. */
+  signal?: AbortSignal;
+}
+
+export interface AgentBackend {
+  readonly name: string;
+  /**
+   * Run one agent call in a fresh session and return the agent's full output.
+   */
+  run(agent: string, prompt: string, opts?: AgentCallOptions): Promise<string>;
+  /** Release long-lived resources (processes, connections). */
+  cleanup(): Promise<void>;
+}
+
+export type AgentBackendKind = "cli" | "acp" | "scripted";
@@ -7,16 +7,28 @@
  *   kiro-workflow run feature-dev "Add OAuth2 authentication"
  *   kiro-workflow run bug-fix "Fix login timeout on slow connections"
  *   kiro-workflow run security-audit "Audit auth module"
- *   kiro-workflow status
+ *   kiro-workflow resume <run-id>
+ *   kiro-workflow rollback <run-id> <story-id>
+ *   kiro-workflow status [<run-id>]
+ *   kiro-workflow list-runs [--workflow <name>] [--status <s>] [--since <when>]
+ *   kiro-workflow prune --older-than 30d [--status failed] [--delete-branches]
+ *   kiro-workflow logs <run-id> [--story <id>] [--agent <name>] [--full]
  *   kiro-workflow init
  */
 
 import { WorkflowOrchestrator } from "./orchestrator.js";
-import { WORKFLOWS } from "./workflows.js";
-import { WorkflowType, RunConfig, DEFAULT_CONFIG } from "./types.js";
-import { log, success, error } from "./utils.js";
+import { loadWorkflows } from "./workflows.js";
+import { WorkflowRun, RunConfig, RunStatus, RUN_STATUSES, Story, StorySource, OnFailPolicy, ON_FAIL_POLICIES, DEFAULT_CONFIG } from "./types.js";
+import { RunFilter, RunHistory, RunSortKey, RUN_SORT_KEYS } from "./history.js";
+import { loadRepoSettings } from "./repo.js";
+import { TranscriptLog } from "./transcript.js";
+import { AgentBackendKind, BACKEND_KINDS } from "./backends/index.js";
+import { NdjsonReporter, exitCodeFor } from "./output.js";
+import { TerminalReviewer } from "./review.js";
+import { CARGO_GATES, GO_GATES, QualityGate } from "./gates.js";
+import { log, success, warn, error, formatElapsed } from "./utils.js";
 import { existsSync, cpSync, readdirSync, readFileSync, writeFileSync, mkdirSync } from "fs";
-import { join, dirname } from "path";
+import { join, dirname, resolve } from "path";
 import { fileURLToPath } from "url";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -28,22 +40,56 @@ kiro-workflow — Multi-agent development workflows for Kiro CLI
 
 USAGE:
   kiro-workflow run <workflow> "<task description>"
+  kiro-workflow run <workflow> --prd prd.json | --spec .kiro/specs/<name>
+  kiro-workflow resume <run-id>
+  kiro-workflow rollback <run-id> <story-id>
   kiro-workflow init [--dir <path>]
   kiro-workflow setup [--global] [--mcp] [--agents] [--steering]
-  kiro-workflow status
+  kiro-workflow status [<run-id>]
+  kiro-workflow list-runs [--workflow <name>] [--status <s>[,<s>]] [--since <when>] [--until <when>]
+                          [--sort created|updated|workflow|status] [--limit <n>]
+  kiro-workflow prune [--older-than <dur>] [--status <s>[,<s>]] [--workflow <name>] [--delete-branches] [--dry-run]
+  kiro-workflow logs <run-id> [--story <id>] [--agent <name>] [--full]
   kiro-workflow list
 
 WORKFLOWS:
   feature-dev      Plan, implement, test, and review a feature
   bug-fix          Triage, investigate, fix, and verify a bug
   security-audit   Scan, prioritize, fix, and test security issues
+  (custom)         Any pipeline defined in .kiro/workflows/<name>.json
 
 OPTIONS:
   --acp            Use ACP protocol (persistent process, faster)
+  --backend <kind> Agent backend: cli (default), acp, or scripted (offline fixtures)
+  --fixtures <dir> Fixture directory for --backend scripted (default: .kiro/fixtures)
   --max-iter <n>   Max iterations (default: 15)
   --no-verify      Skip verification after each story
+  --no-gates       Skip the build/typecheck/lint/test gates run before verification
+  --timeout <dur>  Timeout per agent call, e.g. 90s, 15m (default: 5m)
+  --agent-timeout <agent>=<dur>  Timeout for one agent, e.g. developer=20m (repeatable)
+  --parallel <n>   Run up to n independent stories at once in git worktrees
+  --prd <file>     Take stories from a prd.json (as used by ralph.sh) instead of planning
+  --spec <dir>     Take stories from a Kiro spec's tasks.md checkboxes instead of planning
+  --review-rounds <n>  Max fix rounds triggered by blocking review/test findings (default: 2)
+  --on-fail <policy>   After a failed attempt: reset (default) the tree to the story's
+                   checkpoint, stash the changes, or keep them for the next attempt
+  --allow-dirty    Start even though the working tree has uncommitted changes
+  --review-plan    Pause after planning to approve, re-plan or edit the stories ($EDITOR)
+  --pause-after <step>  Also pause after a step, by agent or role, e.g. review (repeatable)
+  --base <branch>  Create the run branch from this branch (default: current HEAD)
+  --branch <tmpl>  Run branch name, e.g. kiro/{workflow}/{date}-{task}
+                   (placeholders: {workflow} {id} {timestamp} {date} {task})
+  --output <fmt>   text (default) or ndjson: one JSON event per line on stdout
+  --json           Same as --output ndjson
   --verbose        Show detailed output
 
+EXIT CODES (run, resume):
+  0    All stories and steps done
+  1    Run failed — some stories failed or were blocked, or a step failed (also usage errors)
+  2    Planning failed — no stories to work on
+  130  Interrupted (Ctrl-C / SIGTERM) or stopped at a review pause — state is saved; continue with 'resume'.
+       Ctrl-C twice quits at once
+
 SETUP:
   --global         Install to ~/.kiro/ (available in all projects)
   --mcp            Configure MCP servers only
@@ -55,6 +101,15 @@ EXAMPLES:
   kiro-workflow run feature-dev "Add user authentication with OAuth2"
   kiro-workflow run bug-fix "Fix: login form submits twice on slow connections"
   kiro-workflow run security-audit "Audit the API authentication module"
+  kiro-workflow run feature-dev --prd prd.json             # Marks stories "passes": true as they complete
+  kiro-workflow run feature-dev --spec .kiro/specs/oauth   # Ticks tasks.md checkboxes as they complete
+  kiro-workflow run feature-dev "Add OAuth2" --output ndjson > events.ndjson   # For CI
+  kiro-workflow run feature-dev "Add OAuth2" --review-plan --pause-after review   # Check the plan and the review
+  kiro-workflow resume 3f9a2c1b     # Continue an interrupted run from its saved state
+  kiro-workflow logs 3f9a2c1b --story setup-auth --full   # Every agent call for one story
+  kiro-workflow status 3f9a2c1b     # Stories, retries, verifier feedback and time spent
+  kiro-workflow list-runs --status failed,interrupted --since 7d
+  kiro-workflow prune --older-than 30d --status failed --delete-branches
   kiro-workflow init                # Copy .kiro/ agents + steering into current project
   kiro-workflow setup               # Auto-configure everything for current project
   kiro-workflow setup --global      # Install agents + MCP globally to ~/.kiro/
@@ -75,6 +130,12 @@ async function main() {
     case "run":
       await commandRun(args.slice(1));
       break;
+    case "resume":
+      await commandResume(args.slice(1));
+      break;
+    case "rollback":
+      commandRollback(args.slice(1));
+      break;
     case "init":
       commandInit(args.slice(1));
       break;
@@ -85,7 +146,16 @@ async function main() {
       commandList();
       break;
     case "status":
-      commandStatus();
+      commandStatus(args.slice(1));
+      break;
+    case "list-runs":
+      commandListRuns(args.slice(1));
+      break;
+    case "prune":
+      commandPrune(args.slice(1));
+      break;
+    case "logs":
+      commandLogs(args.slice(1));
       break;
     default:
       error(`Unknown command: ${command}`);
@@ -94,62 +164,309 @@ async function main() {
   }
 }
 
-async function commandRun(args: string[]) {
-  // Parse args
+const OUTPUT_FORMATS = ["text", "ndjson"] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+interface RunOptions {
+  config: Partial<RunConfig>;
+  positionals: string[];
+  source?: StorySource;
+  output: OutputFormat;
+}
+
+/**
+ * Parse the options shared by `run` and `resume`. Non-flag arguments are
+ * returned in order as positionals.
+ */
+function parseRunOptions(args: string[]): RunOptions {
   const config: Partial<RunConfig> = {};
-  let workflow: string | undefined;
-  let task: string | undefined;
+  const positionals: string[] = [];
+  let source: StorySource | undefined;
+  let output: OutputFormat = "text";
 
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
       case "--acp":
         config.useAcp = true;
         break;
+      case "--backend": {
+        const backend = args[++i] as AgentBackendKind;
+        if (!BACKEND_KINDS.includes(backend)) {
+          error(`Unknown backend: ${backend}. Available: ${BACKEND_KINDS.join(", ")}`);
+          process.exit(1);
+        }
+        config.backend = backend;
+        break;
+      }
+      case "--timeout":
+        config.agentTimeoutMs = parseDuration(args[++i]);
+        break;
+      case "--agent-timeout": {
+        // --agent-timeout developer=15m
+        const [agent, value] = (args[++i] ?? "").split("=");
+        if (!agent || !value) {
+          error("Usage: --agent-timeout <agent>=<duration>");
+          process.exit(1);
+        }
+        config.agentTimeouts = { ...config.agentTimeouts, [agent]: parseDuration(value) };
+        break;
+      }
+      case "--fixtures":
+        config.fixturesDir = resolve(args[++i]);
+        break;
       case "--max-iter":
         config.maxIterations = parseInt(args[++i]);
         break;
       case "--no-verify":
         config.verifyEach = false;
         break;
+      case "--no-gates":
+        config.gates = false;
+        break;
+      case "--review-rounds":
+        config.maxReviewRounds = Math.max(0, parseInt(args[++i]) || 0);
+        break;
+      case "--on-fail": {
+        const policy = args[++i] as OnFailPolicy;
+        if (!ON_FAIL_POLICIES.includes(policy)) {
+          error(`Unknown --on-fail policy: ${policy}. Available: ${ON_FAIL_POLICIES.join(", ")}`);
+          process.exit(1);
+        }
+        config.onFail = policy;
+        break;
+      }
+      case "--allow-dirty":
+        config.allowDirty = true;
+        break;
+      case "--review-plan":
+        config.reviewPlan = true;
+        break;
+      case "--pause-after": {
+        const steps = (args[++i] ?? "").split(",").filter(Boolean);
+        if (steps.length === 0) {
+          error("Usage: --pause-after <step>[,<step>]");
+          process.exit(1);
+        }
+        config.pauseAfter = [...(config.pauseAfter ?? []), ...steps];
+        break;
+      }
+      case "--base":
+        config.baseBranch = args[++i];
+        break;
+      case "--branch":
+        config.branchTemplate = args[++i];
+        break;
+      case "--parallel":
+        config.parallel = Math.max(1, parseInt(args[++i]) || 1);
+        break;
       case "--verbose":
         config.verbose = true;
         break;
-      default:
-        if (!workflow) {
-          workflow = args[i];
-        } else if (!task) {
-          task = args[i];
+      case "--output": {
+        const format = args[++i] as OutputFormat;
+        if (!OUTPUT_FORMATS.includes(format)) {
+          error(`Unknown output format: ${format}. Available: ${OUTPUT_FORMATS.join(", ")}`);
+          process.exit(1);
         }
+        output = format;
+        break;
+      }
+      case "--json":
+        output = "ndjson";
+        break;
+      case "--prd":
+      case "--spec": {
+        const path = args[++i];
+        if (!path || source) {
+          error(!path ? `Usage: ${args[i - 1]} <path>` : "Use only one of --prd and --spec");
+          process.exit(1);
+        }
+        source = { kind: args[i - 1] === "--prd" ? "prd" : "spec", path: resolve(path) };
+        break;
+      }
+      default:
+        positionals.push(args[i]);
     }
   }
 
-  if (!workflow || !task) {
-    error("Usage: kiro-workflow run <workflow> \"<task>\"");
+  return { config, positionals, source, output };
+}
+
+/**
+ * Parse a duration like "90s", "15m", "30d" or a bare number of seconds into milliseconds.
+ */
+function parseDuration(value: string | undefined): number {
+  const m = (value ?? "").match(/^(\d+)(s|m|h|d)?$/);
+  if (!m) {
+    error(`Invalid duration: ${value} (use e.g. 90s, 15m, 1h, 30d)`);
     process.exit(1);
   }
+  const unit = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 }[m[2] ?? "s"]!;
+  return parseInt(m[1]) * unit;
+}
 
-  if (!WORKFLOWS[workflow as WorkflowType]) {
-    error(`Unknown workflow: ${workflow}`);
-    error(`Available: ${Object.keys(WORKFLOWS).join(", ")}`);
+/**
+ * Parse a point in time: a date ("2026-01-31", any ISO timestamp) or a
+ * duration ago ("7d", "12h").
+ */
+function parseWhen(value: string | undefined): Date {
+  if (value && /^\d+[smhd]$/.test(value)) return new Date(Date.now() - parseDuration(value));
+  const t = Date.parse(value ?? "");
+  if (Number.isNaN(t)) {
+    error(`Invalid date: ${value} (use e.g. 2026-01-31 or 7d)`);
     process.exit(1);
   }
+  return new Date(t);
+}
 
-  // Check for .kiro/agents
-  if (!existsSync(join(process.cwd(), ".kiro", "agents"))) {
-    error("No .kiro/agents/ found. Run 'kiro-workflow init' first.");
+function parseStatuses(value: string | undefined): RunStatus[] {
+  const statuses = (value ?? "").split(",").filter(Boolean) as RunStatus[];
+  const unknown = statuses.filter((s) => !RUN_STATUSES.includes(s));
+  if (statuses.length === 0 || unknown.length > 0) {
+    error(`Unknown status: ${unknown.join(", ") || value}. Available: ${RUN_STATUSES.join(", ")}`);
     process.exit(1);
   }
+  return statuses;
+}
 
-  const orchestrator = new WorkflowOrchestrator(config);
-  const result = await orchestrator.run(workflow as WorkflowType, task);
+/**
+ * Parse the run filters shared by `list-runs` and `prune`. Returns the
+ * arguments it didn't recognise.
+ */
+function parseRunFilter(args: string[]): { filter: RunFilter; rest: string[] } {
+  const filter: RunFilter = {};
+  const rest: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--workflow":
+        filter.workflow = args[++i];
+        break;
+      case "--status":
+        filter.status = parseStatuses(args[++i]);
+        break;
+      case "--since":
+        filter.since = parseWhen(args[++i]);
+        break;
+      case "--until":
+        filter.until = parseWhen(args[++i]);
+        break;
+      default:
+        rest.push(args[i]);
+    }
+  }
+  return { filter, rest };
+}
 
-  // Print summary
+function printRunSummary(result: WorkflowRun) {
   console.log(`\nRun: ${result.id}`);
   console.log(`Status: ${result.status}`);
   console.log(`Stories: ${result.stories.filter((s) => s.status === "done").length}/${result.stories.length}`);
+  const blocked = result.stories.filter((s) => s.status === "blocked");
+  if (blocked.length > 0) {
+    console.log(`Blocked: ${blocked.map((s) => s.id).join(", ")}`);
+  }
   console.log(`Branch: ${result.branch}`);
+  if (result.status === "interrupted") {
+    console.log(`Resume: kiro-workflow resume ${result.id}`);
+  }
+}
+
+async function commandRun(args: string[]) {
+  const { config, positionals, source, output } = parseRunOptions(args);
+  const [workflow, task] = positionals;
+
+  if (!workflow || (!task && !source)) {
+    error("Usage: kiro-workflow run <workflow> \"<task>\" | --prd <file> | --spec <dir>");
+    process.exit(1);
+  }
+
+  // Check for .kiro/agents
+  if (!existsSync(join(process.cwd(), ".kiro", "agents"))) {
+    error("No .kiro/agents/ found. Run 'kiro-workflow init' first.");
+    process.exit(1);
+  }
+
+  const workflows = loadWorkflows(process.cwd());
+  if (!workflows[workflow]) {
+    error(`Unknown workflow: ${workflow}`);
+    error(`Available: ${Object.keys(workflows).join(", ")}`);
+    process.exit(1);
+  }
+
+  const orchestrator = createOrchestrator(config, output);
+  const result = await reportNotStarted(output, () => orchestrator.run(workflow, task ?? "", { source }));
+
+  if (output === "text") printRunSummary(result);
+  process.exit(exitCodeFor(result));
+}
+
+async function commandResume(args: string[]) {
+  const { config, positionals, source, output } = parseRunOptions(args);
+  const [runId] = positionals;
+
+  if (source) {
+    error("--prd and --spec only apply to 'run'; a resumed run keeps its original source");
+    process.exit(1);
+  }
+
+  if (!runId) {
+    error("Usage: kiro-workflow resume <run-id>");
+    process.exit(1);
+  }
+
+  const orchestrator = createOrchestrator(config, output);
+  const result = await reportNotStarted(output, () => orchestrator.resume(runId));
 
-  process.exit(result.status === "done" ? 0 : 1);
+  if (output === "text") printRunSummary(result);
+  process.exit(exitCodeFor(result));
+}
+
+function commandRollback(args: string[]) {
+  const [runId, storyId] = args;
+  if (!runId || !storyId) {
+    error("Usage: kiro-workflow rollback <run-id> <story-id>");
+    process.exit(1);
+  }
+
+  const orchestrator = new WorkflowOrchestrator({}, { ui: false });
+  const { commit, dependents } = orchestrator.rollback(runId, storyId);
+  success(`Reverted ${storyId} in ${commit.slice(0, 7)}; the story is pending again`);
+  if (dependents.length > 0) {
+    warn(`Done stories that depend on ${storyId}: ${dependents.join(", ")}`);
+  }
+}
+
+/**
+ * A run that throws never got as far as `run:end` — in ndjson mode, print one
+ * anyway so CI sees why it stopped.
+ */
+async function reportNotStarted(output: OutputFormat, start: () => Promise<WorkflowRun>): Promise<WorkflowRun> {
+  try {
+    return await start();
+  } catch (err: any) {
+    if (output === "ndjson") new NdjsonReporter().notStarted(err.message || String(err));
+    throw err;
+  }
+}
+
+/**
+ * In ndjson mode stdout carries only events; the live display is off.
+ * Review pauses are answered on the terminal; without one, the run stops at
+ * the first pause.
+ */
+function createOrchestrator(config: Partial<RunConfig>, output: OutputFormat): WorkflowOrchestrator {
+  const orchestrator = new WorkflowOrchestrator(config, { ui: output === "text" });
+  if (output === "ndjson") new NdjsonReporter().subscribe(orchestrator.events);
+
+  if (config.reviewPlan || config.pauseAfter?.length) {
+    if (process.stdin.isTTY) {
+      const reviewer = new TerminalReviewer();
+      orchestrator.onReview = (review) => reviewer.review(review);
+    } else {
+      warn("stdin is not a terminal — the run will stop at the first review pause; continue it with 'resume'");
+    }
+  }
+  return orchestrator;
 }
 
 function commandInit(args: string[]) {
@@ -441,13 +758,13 @@ function generateSteering(projectDir: string, kiroDir: string) {
   // Cargo.toml (Rust)
   if (existsSync(join(projectDir, "Cargo.toml"))) {
     techLines.push("## Stack\n", "- Rust", "- Cargo\n");
-    techLines.push("## Scripts\n", "- `cargo build`: Build", "- `cargo test`: Test", "- `cargo clippy`: Lint");
+    techLines.push("## Scripts\n", ...CARGO_GATES.map(gateLine));
   }
 
   // Go
   if (existsSync(join(projectDir, "go.mod"))) {
     techLines.push("## Stack\n", "- Go\n");
-    techLines.push("## Scripts\n", "- `go build ./...`: Build", "- `go test ./...`: Test");
+    techLines.push("## Scripts\n", ...GO_GATES.map(gateLine));
   }
 
   // Python
@@ -486,9 +803,14 @@ function generateSteering(projectDir: string, kiroDir: string) {
   }
 }
 
+/** "- `cargo build`: Build" */
+function gateLine(gate: QualityGate): string {
+  return `- \`${gate.command}\`: ${gate.name[0].toUpperCase()}${gate.name.slice(1)}`;
+}
+
 function commandList() {
   console.log("Available workflows:\n");
-  for (const [name, wf] of Object.entries(WORKFLOWS)) {
+  for (const [name, wf] of Object.entries(loadWorkflows(process.cwd()))) {
     console.log(`  ${name}`);
     console.log(`    ${wf.description}`);
     console.log(`    Pipeline: ${wf.steps.map((s) => s.agent).join(" → ")}`);
@@ -496,27 +818,209 @@ function commandList() {
   }
 }
 
-function commandStatus() {
-  const stateDir = join(process.cwd(), ".kiro", ".workflows");
-  if (!existsSync(stateDir)) {
-    log("No workflow runs found.");
+const STORY_ICONS: Record<Story["status"], string> = {
+  done: "✅",
+  running: "…",
+  failed: "❌",
+  blocked: "⊘",
+  pending: "⬚",
+};
+
+function runLine(run: WorkflowRun): string {
+  const done = run.stories.filter((s) => s.status === "done").length;
+  const created = run.createdAt.slice(0, 16).replace("T", " ");
+  return `  ${run.id}  ${created}  ${run.workflow}  ${run.status}  ${done}/${run.stories.length} stories  ${run.branch}`;
+}
+
+function commandStatus(args: string[]) {
+  const history = new RunHistory(process.cwd());
+  const [runId] = args;
+
+  if (!runId) {
+    const runs = history.list().slice(0, 5);
+    if (runs.length === 0) {
+      log("No workflow runs found.");
+      return;
+    }
+    for (const run of runs) console.log(runLine(run));
     return;
   }
 
-  const files = readdirSync(stateDir).filter((f) => f.endsWith(".json"));
-  if (files.length === 0) {
-    log("No workflow runs found.");
+  const run = history.load(runId);
+  const steps = loadWorkflows(process.cwd())[run.workflow]?.steps;
+  const step = steps?.[run.currentStep];
+  const elapsed = Date.parse(run.updatedAt) - Date.parse(run.createdAt);
+
+  console.log(`Run: ${run.id}`);
+  console.log(`Workflow: ${run.workflow}`);
+  console.log(`Task: ${run.task || "-"}`);
+  console.log(`Status: ${run.status}${step && run.status !== "done" ? ` (at step ${run.currentStep + 1}: ${step.agent})` : ""}`);
+  console.log(`Branch: ${run.branch}`);
+  console.log(`Created: ${run.createdAt}  Updated: ${run.updatedAt}  (${formatElapsed(Math.max(0, elapsed))})`);
+  console.log(`Iterations: ${run.iteration}/${run.maxIterations}`);
+
+  const timings = history.storyTimings(run.id);
+  const done = run.stories.filter((s) => s.status === "done").length;
+  console.log(`\nStories: ${done}/${run.stories.length}`);
+  for (const story of run.stories) {
+    const timing = timings.get(story.id);
+    const spent = timing ? `  ${timing.calls} call${timing.calls === 1 ? "" : "s"}, ${formatElapsed(timing.durationMs)}` : "";
+    console.log(`  ${STORY_ICONS[story.status]} ${story.id}  ${story.title}  (retries ${story.retryCount}/${story.maxRetries}${spent})`);
+    if (story.status !== "done" && story.verifyFeedback) {
+      for (const line of story.verifyFeedback.trim().split("\n").slice(0, 10)) {
+        console.log(`      ${line}`);
+      }
+    }
+  }
+
+  const counts = [
+    run.findings?.length ? `${run.findings.length} findings` : "",
+    run.hooks?.length ? `${run.hooks.length} hook runs (${run.hooks.filter((h) => h.status === "failed").length} failed)` : "",
+    run.permissions?.some((p) => !p.allowed) ? `${run.permissions.filter((p) => !p.allowed).length} denied tool calls` : "",
+  ].filter(Boolean);
+  if (counts.length > 0) console.log(`\n${counts.join(", ")}`);
+  if (run.status === "interrupted" || run.status === "failed") {
+    // Resume picks up at the saved step; failed and blocked stories aren't retried
+    if (steps && run.currentStep < steps.length) {
+      console.log(`\nResume: kiro-workflow resume ${run.id}`);
+    } else {
+      console.log(`\nNothing left to resume — every step ran. Start a new run for the stories that aren't done.`);
+    }
+  }
+}
+
+function commandListRuns(args: string[]) {
+  const { filter, rest } = parseRunFilter(args);
+  let sort: RunSortKey = "created";
+  let limit: number | undefined;
+
+  for (let i = 0; i < rest.length; i++) {
+    switch (rest[i]) {
+      case "--sort":
+        sort = rest[++i] as RunSortKey;
+        if (!RUN_SORT_KEYS.includes(sort)) {
+          error(`Unknown sort key: ${sort}. Available: ${RUN_SORT_KEYS.join(", ")}`);
+          process.exit(1);
+        }
+        break;
+      case "--limit":
+        limit = parseInt(rest[++i], 10);
+        if (!(limit > 0)) {
+          error("--limit must be a positive number");
+          process.exit(1);
+        }
+        break;
+      default:
+        error(`Unknown option: ${rest[i]}`);
+        process.exit(1);
+    }
+  }
+
+  const runs = new RunHistory(process.cwd()).list(filter, sort).slice(0, limit);
+  if (runs.length === 0) {
+    log("No matching workflow runs.");
     return;
   }
+  for (const run of runs) console.log(runLine(run));
+}
 
-  for (const file of files.slice(-5)) {
-    try {
-      const run = JSON.parse(require("fs").readFileSync(join(stateDir, file), "utf-8"));
-      const done = run.stories?.filter((s: any) => s.status === "done").length || 0;
-      const total = run.stories?.length || 0;
-      console.log(`  ${run.id}  ${run.workflow}  ${run.status}  ${done}/${total} stories  ${run.branch}`);
-    } catch {
-      // skip corrupt files
+function commandPrune(args: string[]) {
+  const { filter, rest } = parseRunFilter(args);
+  let deleteBranches = false;
+  let dryRun = false;
+
+  for (let i = 0; i < rest.length; i++) {
+    switch (rest[i]) {
+      case "--older-than":
+        filter.updatedBefore = new Date(Date.now() - parseDuration(rest[++i]));
+        break;
+      case "--delete-branches":
+        deleteBranches = true;
+        break;
+      case "--dry-run":
+        dryRun = true;
+        break;
+      default:
+        error(`Unknown option: ${rest[i]}`);
+        process.exit(1);
+    }
+  }
+
+  if (!filter.updatedBefore && !filter.status) {
+    error("Usage: kiro-workflow prune --older-than <dur> | --status <s>[,<s>] [--workflow <name>] [--delete-branches] [--dry-run]");
+    process.exit(1);
+  }
+
+  const history = new RunHistory(process.cwd());
+  const repo = deleteBranches ? loadRepoSettings(process.cwd()) : undefined;
+  const result = history.prune(filter, { deleteBranches, dryRun, repo });
+  if (result.runs.length === 0) {
+    log("No matching workflow runs.");
+    return;
+  }
+
+  for (const run of result.runs) console.log(runLine(run));
+  for (const { branch, reason } of result.keptBranches) {
+    warn(`Kept branch ${branch}: ${reason}`);
+  }
+  const branches = deleteBranches ? ` and ${result.branches.length} branch${result.branches.length === 1 ? "" : "es"}` : "";
+  if (dryRun) {
+    log(`Would delete ${result.runs.length} run${result.runs.length === 1 ? "" : "s"}${branches} (dry run)`);
+  } else {
+    success(`Deleted ${result.runs.length} run${result.runs.length === 1 ? "" : "s"}${branches}`);
+  }
+}
+
+function commandLogs(args: string[]) {
+  const filter: { story?: string; agent?: string } = {};
+  let runId: string | undefined;
+  let full = false;
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--story":
+        filter.story = args[++i];
+        break;
+      case "--agent":
+        filter.agent = args[++i];
+        break;
+      case "--full":
+        full = true;
+        break;
+      default:
+        runId = runId ?? args[i];
+    }
+  }
+
+  if (!runId) {
+    error("Usage: kiro-workflow logs <run-id> [--story <id>] [--agent <name>] [--full]");
+    process.exit(1);
+  }
+
+  const stateDir = join(process.cwd(), ".kiro", ".workflows");
+  const entries = TranscriptLog.read(stateDir, runId, filter);
+  if (entries.length === 0) {
+    log(`No agent calls recorded for run ${runId}.`);
+    return;
+  }
+
+  for (const e of entries) {
+    const secs = (e.durationMs / 1000).toFixed(1);
+    const status = e.status === "ok" ? "ok" : `error: ${e.error?.split("\n")[0]}`;
+    console.log(`#${e.seq}  ${e.startedAt}  ${e.agent}  ${e.role ?? "-"}  ${e.story ?? "-"}  ${secs}s  ${status}`);
+    if (full) {
+      console.log("\n--- prompt ---");
+      console.log(e.prompt);
+      if (e.events?.length) {
+        console.log("--- tool calls ---");
+        for (const ev of e.events) {
+          if (ev.type === "tool_call") console.log(`${ev.title}${ev.input !== undefined ? ` ${JSON.stringify(ev.input)}` : ""}`);
+          else if (ev.type === "tool_call_update" && ev.status) console.log(`  → ${ev.status}${ev.output ? `: ${ev.output.split("\n")[0]}` : ""}`);
+        }
+      }
+      console.log("--- output ---");
+      console.log(e.output);
+      console.log();
     }
   }
 }
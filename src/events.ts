@@ -0,0 +1,128 @@
+/**
+ * Workflow events — what a run is doing, for anything that wants to watch:
+ * the terminal UI, `--output ndjson`, or an embedding application.
+ *
+ *   const wf = new WorkflowOrchestrator({ projectDir }, { ui: false });
+ *   wf.events.on("story:failed", ({ story }) => console.log(story.verifyFeedback));
+ *   for await (const event of wf.events) { ... }   // ends after run:end
+ *
+ * Payloads hold the live run and story objects; copy them to keep a snapshot.
+ */
+
+import { AgentEvent, PipelineStep, ReviewDecision, Story, WorkflowPipeline, WorkflowRun } from "./types.js";
+import { warn } from "./utils.js";
+
+export interface WorkflowEventMap {
+  /** A run starts, or a saved run resumes. */
+  "run:start": { run: WorkflowRun; pipeline: WorkflowPipeline; resumed: boolean };
+  /** Stories are known — from the planner, or loaded from a prd.json or spec. */
+  "plan:ready": { run: WorkflowRun; stories: Story[] };
+  "step:start": { run: WorkflowRun; step: PipelineStep; index: number };
+  "step:end": { run: WorkflowRun; step: PipelineStep; index: number };
+  /** The run pauses after a step for review (`--review-plan`, `--pause-after`). */
+  "review:start": { run: WorkflowRun; step: PipelineStep; index: number };
+  /** The reviewer decided; the run goes on unless `action` is `stop`. */
+  "review:end": { run: WorkflowRun; step: PipelineStep; index: number; action: ReviewDecision["action"] };
+  /** An attempt at a story begins. */
+  "story:start": { run: WorkflowRun; story: Story; iteration: number };
+  /** A story passed verification and was committed. */
+  "story:verified": { run: WorkflowRun; story: Story; iteration: number };
+  /** An attempt failed; `story.verifyFeedback` says why. */
+  "story:failed": { run: WorkflowRun; story: Story; iteration: number; retrying: boolean };
+  "agent:call": { agent: string; role?: string; story?: string; prompt: string };
+  "agent:output": { agent: string; story?: string; line: string };
+  /** Live tool calls, plan updates and message chunks (ACP backend only). */
+  "agent:event": { agent: string; story?: string; event: AgentEvent };
+  /** A human-readable progress note. */
+  "activity": { run: WorkflowRun; agent: string; message: string };
+  "run:end": { run: WorkflowRun; error?: string };
+}
+
+export type WorkflowEventType = keyof WorkflowEventMap;
+
+export type WorkflowEvent = {
+  [K in WorkflowEventType]: { type: K } & WorkflowEventMap[K];
+}[WorkflowEventType];
+
+type Listener<K extends WorkflowEventType> = (event: { type: K } & WorkflowEventMap[K]) => void;
+
+export class WorkflowEvents {
+  private listeners = new Map<WorkflowEventType, Set<(event: any) => void>>();
+  private anyListeners = new Set<(event: WorkflowEvent) => void>();
+
+  /** Listen for one event type. Returns a function that removes the listener. */
+  on<K extends WorkflowEventType>(type: K, listener: Listener<K>): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+    return () => set!.delete(listener);
+  }
+
+  /** Listen for every event. Returns a function that removes the listener. */
+  onAny(listener: (event: WorkflowEvent) => void): () => void {
+    this.anyListeners.add(listener);
+    return () => this.anyListeners.delete(listener);
+  }
+
+  emit<K extends WorkflowEventType>(type: K, payload: WorkflowEventMap[K]) {
+    const event = { type, ...payload } as WorkflowEvent;
+    for (const listener of [...(this.listeners.get(type) ?? []), ...this.anyListeners]) {
+      try {
+        listener(event);
+      } catch (err: any) {
+        // A broken subscriber shouldn't take the run down with it
+        warn(`[events] ${type} listener failed: ${err.message || err}`);
+      }
+    }
+  }
+
+  /**
+   * Events as an async iterator, from now until the next `run:end`
+   * (inclusive). Events are buffered while the consumer is busy.
+   */
+  stream(): AsyncIterableIterator<WorkflowEvent> {
+    const buffer: WorkflowEvent[] = [];
+    let wake: (() => void) | undefined;
+    let ended = false;
+
+    const off = this.onAny((event) => {
+      buffer.push(event);
+      if (event.type === "run:end") off();
+      wake?.();
+    });
+    const finish = () => {
+      ended = true;
+      off();
+      wake?.();
+    };
+
+    const iterator: AsyncIterableIterator<WorkflowEvent> = {
+      async next(): Promise<IteratorResult<WorkflowEvent>> {
+        while (buffer.length === 0 && !ended) {
+          await new Promise<void>((resolve) => { wake = resolve; });
+          wake = undefined;
+        }
+        const event = buffer.shift();
+        if (!event) return { done: true, value: undefined };
+        if (event.type === "run:end") ended = true;
+        return { done: false, value: event };
+      },
+      async return(): Promise<IteratorResult<WorkflowEvent>> {
+        finish();
+        buffer.length = 0;
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]() {
+        return iterator;
+      },
+    };
+    return iterator;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<WorkflowEvent> {
+    return this.stream();
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Reviewer and tester findings.
+ *
+ * Parses `[SEVERITY] file:line — description` lines (the reviewer agent's
+ * format) or a JSON array of findings, and turns blocking ones into follow-up
+ * stories for another pass through the Ralph loop.
+ */
+
+import { Finding, Severity, Story } from "./types.js";
+
+export const SEVERITY_ORDER: Severity[] = ["info", "low", "medium", "high", "critical"];
+
+/** Labels agents use, mapped onto one scale. The reviewer's BLOCKING is high. */
+const SEVERITY_ALIASES: Record<string, Severity> = {
+  critical: "critical",
+  blocking: "high",
+  high: "high",
+  should_fix: "medium",
+  medium: "medium",
+  suggestion: "low",
+  low: "low",
+  info: "info",
+};
+
+export function isBlocking(finding: Finding, threshold: Severity): boolean {
+  return SEVERITY_ORDER.indexOf(finding.severity) >= SEVERITY_ORDER.indexOf(threshold);
+}
+
+export function parseFindings(output: string, source: string): Finding[] {
+  return parseJsonFindings(output, source) ?? parseTextFindings(output, source);
+}
+
+function parseJsonFindings(output: string, source: string): Finding[] | undefined {
+  const fenced = output.match(/```json\s*(\[[\s\S]*?\])\s*```/);
+  if (!fenced) return undefined;
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fenced[1]);
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(raw)) return undefined;
+
+  const findings: Finding[] = [];
+  for (const f of raw) {
+    const severity = SEVERITY_ALIASES[String(f?.severity ?? "").toLowerCase()];
+    if (!severity || !f.description) continue;
+    findings.push({
+      severity,
+      ...(f.file && { file: String(f.file) }),
+      ...(typeof f.line === "number" && { line: f.line }),
+      description: String(f.description),
+      source,
+    });
+  }
+  return findings;
+}
+
+function parseTextFindings(output: string, source: string): Finding[] {
+  const findings: Finding[] = [];
+  // [BLOCKING] src/auth.ts:42 — token never expires
+  const pattern = /^\s*(?:[-*]\s*)?(?:\S+\s+)?\[(\w+)\]\s+(?:`?([^\s`:]+)(?::(\d+))?`?\s+(?:—|–|--|-)\s+)?(.+)$/;
+
+  for (const line of output.split("\n")) {
+    const m = line.replace(/\*\*/g, "").match(pattern);
+    if (!m) continue;
+    const severity = SEVERITY_ALIASES[m[1].toLowerCase()];
+    if (!severity) continue;
+
+    findings.push({
+      severity,
+      ...(m[2] && { file: m[2] }),
+      ...(m[3] && { line: parseInt(m[3]) }),
+      description: m[4].trim(),
+      source,
+    });
+  }
+  return findings;
+}
+
+/**
+ * One follow-up story per blocking finding. Ids are namespaced by step role
+ * and round (`review-r1-2`); when a round's ids are already among `taken`
+ * (a resumed run, a second step with the same role) the next free round is
+ * used, so follow-ups never collide with existing stories.
+ */
+export function findingsToStories(
+  findings: Finding[],
+  role: string,
+  round: number,
+  maxRetries: number,
+  taken: Iterable<string> = [],
+): Story[] {
+  const ids = new Set(taken);
+  let r = round;
+  while ([...ids].some((id) => id.startsWith(`${role}-r${r}-`))) r++;
+  return findings.map((f, i) => {
+    const where = f.file ? `${f.file}${f.line ? `:${f.line}` : ""}` : undefined;
+    return {
+      id: `${role}-r${r}-${i + 1}`,
+      title: `Address ${f.severity} ${role} finding${where ? ` in ${where}` : ""}`,
+      description: `The ${f.source} agent reported: ${f.description}`,
+      acceptanceCriteria: [
+        `Resolved: ${f.description}`,
+        "Existing tests still pass",
+      ],
+      dependsOn: [],
+      status: "pending",
+      retryCount: 0,
+      maxRetries,
+    };
+  });
+}
@@ -0,0 +1,196 @@
+/**
+ * Quality gates — deterministic build, typecheck, lint and test commands run
+ * after the developer finishes a story and before the verifier agent. A
+ * failing gate sends the story straight back with the command's output.
+ *
+ * Defaults come from package.json scripts, Cargo.toml and go.mod (the same
+ * things `kiro-workflow setup` puts in steering/tech.md). Override them in
+ * `.kiro/workflow-gates.json`; `false` turns a gate off:
+ *
+ *   { "typecheck": "npx tsc --noEmit", "lint": false }
+ */
+
+import { spawn } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { GateName, GateResult, GATE_NAMES } from "./types.js";
+import { trackProcessGroup } from "./processes.js";
+
+export interface QualityGate {
+  name: GateName;
+  command: string;
+}
+
+export const CARGO_GATES: QualityGate[] = [
+  { name: "build", command: "cargo build" },
+  { name: "lint", command: "cargo clippy" },
+  { name: "test", command: "cargo test" },
+];
+
+export const GO_GATES: QualityGate[] = [
+  { name: "build", command: "go build ./..." },
+  { name: "test", command: "go test ./..." },
+];
+
+const GATES_FILE = join(".kiro", "workflow-gates.json");
+/** What `npm init` puts in `scripts.test` — not a real test suite. */
+const NPM_PLACEHOLDER_TEST = /no test specified/;
+/** Characters of command output read from a gate; anything after is dropped. */
+const MAX_CAPTURE = 50 * 1024 * 1024;
+/** Characters of command output kept in feedback, split between head and tail. */
+const MAX_FEEDBACK = 3000;
+
+/**
+ * Gates for a project: detected defaults merged with `.kiro/workflow-gates.json`.
+ */
+export function loadGates(projectDir: string): QualityGate[] {
+  const detected = new Map(detectGates(projectDir).map((g) => [g.name, g.command]));
+  const path = join(projectDir, GATES_FILE);
+  if (existsSync(path)) {
+    let raw: any;
+    try {
+      raw = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (e: any) {
+      throw new Error(`Invalid JSON in ${GATES_FILE}: ${e.message}`);
+    }
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error(`${GATES_FILE} must be an object of gate name → command`);
+    }
+    for (const [name, command] of Object.entries(raw)) {
+      if (!GATE_NAMES.includes(name as GateName)) {
+        throw new Error(`${GATES_FILE}: unknown gate '${name}' (expected ${GATE_NAMES.join(", ")})`);
+      }
+      if (command === false || command === null) {
+        detected.delete(name as GateName);
+      } else if (typeof command === "string" && command.trim()) {
+        detected.set(name as GateName, command);
+      } else {
+        throw new Error(`${GATES_FILE}: '${name}' must be a command string or false`);
+      }
+    }
+  }
+  return GATE_NAMES.filter((name) => detected.has(name)).map((name) => ({ name, command: detected.get(name)! }));
+}
+
+export function detectGates(projectDir: string): QualityGate[] {
+  const pkgPath = join(projectDir, "package.json");
+  if (existsSync(pkgPath)) {
+    try {
+      const scripts = JSON.parse(readFileSync(pkgPath, "utf-8")).scripts ?? {};
+      return GATE_NAMES
+        .filter((name) => typeof scripts[name] === "string")
+        .filter((name) => !(name === "test" && NPM_PLACEHOLDER_TEST.test(scripts.test)))
+        .map((name) => ({ name, command: name === "test" ? "npm test" : `npm run ${name}` }));
+    } catch {
+      return [];
+    }
+  }
+  if (existsSync(join(projectDir, "Cargo.toml"))) return CARGO_GATES;
+  if (existsSync(join(projectDir, "go.mod"))) return GO_GATES;
+  return [];
+}
+
+/**
+ * Run gates in order, stopping at the first failure. Aborting `signal` kills
+ * the running command and everything it started, which then counts as failed.
+ */
+export async function runGates(
+  gates: QualityGate[],
+  cwd: string,
+  timeoutMs: number,
+  onGate?: (result: GateResult) => void,
+  signal?: AbortSignal,
+): Promise<GateResult[]> {
+  const results: GateResult[] = [];
+  for (const gate of gates) {
+    if (signal?.aborted) break;
+    const result = await runGate(gate, cwd, timeoutMs, signal);
+    results.push(result);
+    onGate?.(result);
+    if (!result.passed) break;
+  }
+  return results;
+}
+
+function runGate(gate: QualityGate, cwd: string, timeoutMs: number, signal?: AbortSignal): Promise<GateResult> {
+  const startedAt = Date.now();
+  return new Promise((resolve) => {
+    // Own process group, so a timeout or abort also kills the test runner the shell started
+    const child = spawn("/bin/sh", ["-c", gate.command], {
+      cwd,
+      stdio: ["ignore", "pipe", "pipe"],
+      detached: true,
+      // Keeps test runners like vitest and jest out of watch mode
+      env: { ...process.env, CI: process.env.CI ?? "1" },
+    });
+    const untrack = trackProcessGroup(child.pid);
+    const kill = () => {
+      try {
+        process.kill(-child.pid!, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL");
+      }
+    };
+
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    child.stdout.setEncoding("utf-8");
+    child.stdout.on("data", (chunk: string) => {
+      if (stdout.length < MAX_CAPTURE) stdout += chunk;
+    });
+    child.stderr.setEncoding("utf-8");
+    child.stderr.on("data", (chunk: string) => {
+      if (stderr.length < MAX_CAPTURE) stderr += chunk;
+    });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, timeoutMs);
+    signal?.addEventListener("abort", kill, { once: true });
+
+    const finish = (exit: string, passed: boolean) => {
+      untrack();
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", kill);
+      resolve({
+        name: gate.name,
+        command: gate.command,
+        passed,
+        exit,
+        durationMs: Date.now() - startedAt,
+        output: trimOutput(`${stdout}${stderr}`),
+      });
+    };
+    child.on("error", (err) => finish(err.message, false));
+    child.on("close", (code, killedBy) => {
+      if (signal?.aborted) {
+        finish("cancelled", false);
+      } else if (timedOut) {
+        finish(`timed out after ${timeoutMs / 1000}s`, false);
+      } else {
+        finish(code === null ? `killed by ${killedBy}` : `exited with code ${code}`, code === 0);
+      }
+    });
+    if (signal?.aborted) kill();
+  });
+}
+
+/**
+ * Feedback for the developer's retry: which gate failed and the output.
+ */
+export function gateFeedback(result: GateResult): string {
+  return `Quality gate "${result.name}" failed: \`${result.command}\` ${result.exit}.
+Fix the problem so the command passes.
+
+${result.output || "(no output)"}`;
+}
+
+/** Keep the head and tail of long output — errors and summaries live there. */
+function trimOutput(output: string): string {
+  const text = output.trim();
+  if (text.length <= MAX_FEEDBACK) return text;
+  const half = MAX_FEEDBACK / 2;
+  return `${text.slice(0, half)}\n… (${text.length - MAX_FEEDBACK} characters trimmed) …\n${text.slice(-half)}`;
+}
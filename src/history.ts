@@ -0,0 +1,187 @@
+/**
+ * Run history — the saved runs in `.kiro/.workflows/`: listing, loading and
+ * pruning them.
+ *
+ * Layout: `<run-id>.json` holds a run's state, `<run-id>/` its transcript.
+ */
+
+import { execFileSync } from "child_process";
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { RunStatus, WorkflowRun } from "./types.js";
+import { TranscriptLog } from "./transcript.js";
+import { RepoSettings, currentBranch, isProtectedBranch } from "./repo.js";
+
+export interface RunFilter {
+  workflow?: string;
+  /** Runs with any of these statuses. */
+  status?: RunStatus[];
+  /** Created at or after this time. */
+  since?: Date;
+  /** Created before this time. */
+  until?: Date;
+  /** Last updated before this time. */
+  updatedBefore?: Date;
+}
+
+export const RUN_SORT_KEYS = ["created", "updated", "workflow", "status"] as const;
+export type RunSortKey = typeof RUN_SORT_KEYS[number];
+
+/** Agent time spent on one story, from the run's transcript. */
+export interface StoryTiming {
+  calls: number;
+  durationMs: number;
+}
+
+export interface PruneResult {
+  runs: WorkflowRun[];
+  /** Run branches deleted with `deleteBranches`. */
+  branches: string[];
+  /** Branches that were kept, and why. */
+  keptBranches: { branch: string; reason: string }[];
+}
+
+/** Runs that may still be going — prune leaves them alone unless asked for by status. */
+const ACTIVE_STATUSES: RunStatus[] = ["planning", "running", "verifying"];
+
+export class RunHistory {
+  readonly stateDir: string;
+  private projectDir: string;
+
+  constructor(projectDir: string) {
+    this.projectDir = projectDir;
+    this.stateDir = join(projectDir, ".kiro", ".workflows");
+  }
+
+  /**
+   * Saved runs matching `filter`: newest first, or grouped by workflow or
+   * status (newest first within a group). Unreadable files, and files whose
+   * run id isn't their name, are skipped — prune deletes paths built from it.
+   */
+  list(filter: RunFilter = {}, sort: RunSortKey = "created"): WorkflowRun[] {
+    if (!existsSync(this.stateDir)) return [];
+
+    const runs: WorkflowRun[] = [];
+    for (const file of readdirSync(this.stateDir).filter((f) => f.endsWith(".json"))) {
+      try {
+        const run = JSON.parse(readFileSync(join(this.stateDir, file), "utf-8"));
+        if (run && run.id === file.slice(0, -".json".length) && Array.isArray(run.stories)) runs.push(run);
+      } catch {
+        // skip corrupt files
+      }
+    }
+
+    const newest = (a: WorkflowRun, b: WorkflowRun) => time(b.createdAt) - time(a.createdAt);
+    const compare: Record<RunSortKey, (a: WorkflowRun, b: WorkflowRun) => number> = {
+      created: newest,
+      updated: (a, b) => time(b.updatedAt) - time(a.updatedAt),
+      workflow: (a, b) => a.workflow.localeCompare(b.workflow) || newest(a, b),
+      status: (a, b) => a.status.localeCompare(b.status) || newest(a, b),
+    };
+    return runs.filter((run) => matches(run, filter)).sort(compare[sort]);
+  }
+
+  load(runId: string): WorkflowRun {
+    const file = join(this.stateDir, `${runId}.json`);
+    if (!existsSync(file)) {
+      throw new Error(`No saved state for run ${runId} in ${this.stateDir}`);
+    }
+    try {
+      return JSON.parse(readFileSync(file, "utf-8")) as WorkflowRun;
+    } catch {
+      throw new Error(`Saved state for run ${runId} is corrupt: ${file}`);
+    }
+  }
+
+  save(run: WorkflowRun) {
+    if (!existsSync(this.stateDir)) {
+      mkdirSync(this.stateDir, { recursive: true });
+    }
+    writeFileSync(join(this.stateDir, `${run.id}.json`), JSON.stringify(run, null, 2));
+  }
+
+  /**
+   * Agent calls and agent time per story, from the run's transcript.
+   */
+  storyTimings(runId: string): Map<string, StoryTiming> {
+    const timings = new Map<string, StoryTiming>();
+    for (const entry of TranscriptLog.read(this.stateDir, runId)) {
+      if (!entry.story) continue;
+      const timing = timings.get(entry.story) ?? { calls: 0, durationMs: 0 };
+      timing.calls++;
+      timing.durationMs += entry.durationMs;
+      timings.set(entry.story, timing);
+    }
+    return timings;
+  }
+
+  /**
+   * Delete matching runs' state and transcripts, and optionally their
+   * branches. Runs that may still be going are only pruned when `filter.status`
+   * names their status; protected and checked-out branches are never deleted.
+   */
+  prune(
+    filter: RunFilter,
+    opts: { deleteBranches?: boolean; dryRun?: boolean; repo?: RepoSettings } = {},
+  ): PruneResult {
+    const runs = this.list(filter).filter((run) => filter.status || !ACTIVE_STATUSES.includes(run.status));
+    const result: PruneResult = { runs, branches: [], keptBranches: [] };
+
+    let checkedOut: string | undefined;
+    if (opts.deleteBranches) {
+      try {
+        checkedOut = currentBranch(this.projectDir);
+      } catch {
+        // Not a git repository — there are no branches to delete
+      }
+    }
+
+    for (const run of runs) {
+      if (opts.deleteBranches && run.branch) {
+        const kept = this.keepBranchReason(run.branch, checkedOut, opts.repo);
+        if (kept) {
+          result.keptBranches.push({ branch: run.branch, reason: kept });
+        } else if (!opts.dryRun) {
+          try {
+            execFileSync("git", ["branch", "-D", run.branch], { cwd: this.projectDir, stdio: "pipe" });
+            result.branches.push(run.branch);
+          } catch (err: any) {
+            result.keptBranches.push({ branch: run.branch, reason: String(err.stderr || err.message).trim().split("\n")[0] });
+          }
+        } else {
+          result.branches.push(run.branch);
+        }
+      }
+      if (!opts.dryRun) {
+        rmSync(join(this.stateDir, `${run.id}.json`), { force: true });
+        rmSync(join(this.stateDir, run.id), { recursive: true, force: true });
+      }
+    }
+    return result;
+  }
+
+  private keepBranchReason(branch: string, checkedOut: string | undefined, repo?: RepoSettings): string | undefined {
+    if (repo && isProtectedBranch(branch, repo)) return "protected";
+    if (branch === checkedOut) return "checked out";
+    try {
+      execFileSync("git", ["rev-parse", "--verify", `refs/heads/${branch}`], { cwd: this.projectDir, stdio: "pipe" });
+    } catch {
+      return "no longer exists";
+    }
+    return undefined;
+  }
+}
+
+function matches(run: WorkflowRun, filter: RunFilter): boolean {
+  if (filter.workflow && run.workflow !== filter.workflow) return false;
+  if (filter.status && !filter.status.includes(run.status)) return false;
+  if (filter.since && time(run.createdAt) < filter.since.getTime()) return false;
+  if (filter.until && time(run.createdAt) >= filter.until.getTime()) return false;
+  if (filter.updatedBefore && time(run.updatedAt) >= filter.updatedBefore.getTime()) return false;
+  return true;
+}
+
+function time(iso: string | undefined): number {
+  const t = Date.parse(iso ?? "");
+  return Number.isNaN(t) ? 0 : t;
+}
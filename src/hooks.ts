@@ -0,0 +1,290 @@
+/**
+ * Lifecycle hooks — `.kiro/hooks/*.md` definitions the orchestrator runs at
+ * fixed points of a workflow run:
+ *
+ * - `run`            before: run start (or resume), after: run end
+ * - `git-commit`     before/after each story commit
+ * - `agent-complete` after each pipeline step (filter with `agent:`)
+ *
+ * Each file has `## Trigger`, `## Agent` and `## Action` sections holding a
+ * YAML block; see CONTRIBUTING.md for the format.
+ */
+
+import { execFile } from "child_process";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { HookResult, HookStepResult, HookTiming, Story, WorkflowRun } from "./types.js";
+import { AgentRunner } from "./loop/agent-runner.js";
+import { parseYaml } from "./yaml.js";
+
+export interface HookStep {
+  action: string;
+  /** Shell command for `run-script`. */
+  command?: string;
+  /** Agent for `invoke-agent` / `run-agent` (default: the hook's agent). */
+  agent?: string;
+  /** Prompt for the agent (default: the hook's description). */
+  input?: string;
+  /** Fail the hooked operation when this step fails. */
+  failOnError: boolean;
+  message?: string;
+}
+
+export interface HookDefinition {
+  name: string;
+  file: string;
+  event: string;
+  when: HookTiming;
+  /** Only fire after these agents (`agent-complete`). */
+  agents?: string[];
+  agent?: string;
+  timeoutMs: number;
+  description: string;
+  steps: HookStep[];
+}
+
+export interface HookContext {
+  run: WorkflowRun;
+  /** Working directory for scripts — a story's worktree in parallel runs. */
+  cwd: string;
+  /** Runs agent steps. */
+  runner: AgentRunner;
+  story?: Story;
+  /** The agent whose step just completed (`agent-complete`). */
+  agent?: string;
+  /** What that step's agent said — every round, for review and test steps. */
+  output?: string;
+}
+
+export interface HookOutcome {
+  results: HookResult[];
+  /** A `fail_on_error` step failed. */
+  blocked: boolean;
+  /** What went wrong, phrased for a retrying agent. */
+  feedback: string;
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const AGENT_ACTIONS = ["invoke-agent", "run-agent"];
+/** Output kept per step in run state. */
+const MAX_OUTPUT = 2000;
+/** Characters of a completed step's output passed to hook agents. */
+const MAX_STEP_OUTPUT = 20_000;
+
+export function loadHooks(projectDir: string): HookDefinition[] {
+  const dir = join(projectDir, ".kiro", "hooks");
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter((f) => f.endsWith(".md"))
+    .sort()
+    .map((file) => {
+      try {
+        return parseHook(readFileSync(join(dir, file), "utf-8"), file);
+      } catch (err: any) {
+        throw new Error(`Invalid hook ${file}: ${err.message}`);
+      }
+    });
+}
+
+export function parseHook(markdown: string, file: string): HookDefinition {
+  const sections = yamlSections(markdown);
+  const trigger = sections.trigger;
+  if (!trigger || typeof trigger.event !== "string") {
+    throw new Error("'## Trigger' needs an 'event'");
+  }
+  const when = trigger.when ?? "after";
+  if (when !== "before" && when !== "after") {
+    throw new Error(`'when' must be before or after, got '${when}'`);
+  }
+
+  const action = sections.action ?? {};
+  if (!Array.isArray(action.steps) || action.steps.length === 0) {
+    throw new Error("'## Action' needs a non-empty 'steps' list");
+  }
+  const steps: HookStep[] = action.steps.map((step: any, i: number) => {
+    if (typeof step?.action !== "string") {
+      throw new Error(`step ${i + 1} needs an 'action'`);
+    }
+    if (step.action === "run-script" && typeof step.command !== "string") {
+      throw new Error(`step ${i + 1} (run-script) needs a 'command'`);
+    }
+    return {
+      action: step.action,
+      command: step.command,
+      agent: step.agent,
+      input: step.input,
+      failOnError: step.fail_on_error === true,
+      message: step.message,
+    };
+  });
+
+  const agent = sections.agent?.agent;
+  const timeout = sections.agent?.timeout;
+  const agents = trigger.agent === undefined ? undefined : [trigger.agent].flat().map(String);
+  return {
+    name: markdown.match(/^#\s+Hook:\s*(.+)$/m)?.[1].trim() ?? file.replace(/\.md$/, ""),
+    file,
+    event: trigger.event,
+    when,
+    ...(agents ? { agents } : {}),
+    ...(agent && agent !== "none" ? { agent } : {}),
+    timeoutMs: (typeof timeout === "number" && timeout > 0 ? timeout : DEFAULT_TIMEOUT_SECONDS) * 1000,
+    description: action.description ?? "",
+    steps,
+  };
+}
+
+/** The YAML block under each `## Heading`, keyed by lower-cased heading. */
+function yamlSections(markdown: string): Record<string, any> {
+  const sections: Record<string, any> = {};
+  for (const part of markdown.split(/^##\s+/m).slice(1)) {
+    const heading = part.slice(0, part.indexOf("\n")).trim().toLowerCase();
+    const block = part.match(/```ya?ml\n([\s\S]*?)```/);
+    if (block) sections[heading] = parseYaml(block[1]);
+  }
+  return sections;
+}
+
+export class HookEngine {
+  /** When set, receives each hook result as it is recorded. */
+  public onResult?: (result: HookResult) => void;
+
+  constructor(private hooks: HookDefinition[]) {}
+
+  static load(projectDir: string): HookEngine {
+    return new HookEngine(loadHooks(projectDir));
+  }
+
+  /**
+   * Run every hook for `event`/`when`, in file name order, recording the
+   * results in `ctx.run.hooks`. Stops at the first blocking failure.
+   */
+  async fire(event: string, when: HookTiming, ctx: HookContext): Promise<HookOutcome> {
+    const outcome: HookOutcome = { results: [], blocked: false, feedback: "" };
+    const matching = this.hooks.filter((h) =>
+      h.event === event && h.when === when && (!h.agents || (ctx.agent !== undefined && h.agents.includes(ctx.agent))));
+
+    for (const hook of matching) {
+      const { result, feedback } = await this.runHook(hook, ctx);
+      ctx.run.hooks.push(result);
+      outcome.results.push(result);
+      this.onResult?.(result);
+      if (result.blocking) {
+        outcome.blocked = true;
+        outcome.feedback = feedback;
+        break;
+      }
+    }
+    return outcome;
+  }
+
+  private async runHook(hook: HookDefinition, ctx: HookContext): Promise<{ result: HookResult; feedback: string }> {
+    const startedAt = Date.now();
+    const steps: HookStepResult[] = [];
+    let feedback = "";
+    let blocking = false;
+
+    for (const step of hook.steps) {
+      const result = await this.runStep(hook, step, ctx);
+      steps.push(result);
+      if (result.status === "failed" && step.failOnError) {
+        blocking = true;
+        feedback = [
+          `Hook ${hook.name} failed${step.message ? `: ${step.message}` : ""}`,
+          result.output ?? "",
+        ].filter(Boolean).join("\n");
+        break;
+      }
+    }
+
+    return {
+      result: {
+        hook: hook.name,
+        event: hook.event,
+        when: hook.when,
+        ...(ctx.story ? { story: ctx.story.id } : {}),
+        at: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        status: steps.some((s) => s.status === "failed") ? "failed" : "passed",
+        blocking,
+        steps,
+      },
+      feedback,
+    };
+  }
+
+  private async runStep(hook: HookDefinition, step: HookStep, ctx: HookContext): Promise<HookStepResult> {
+    if (step.action === "run-script") {
+      return runScript(step.command!, hook, ctx);
+    }
+    if (AGENT_ACTIONS.includes(step.action)) {
+      const agent = step.agent ?? hook.agent;
+      if (!agent) {
+        return { action: step.action, status: "failed", output: "No agent given for this step" };
+      }
+      try {
+        const output = await ctx.runner.run(
+          agent,
+          buildHookPrompt(hook, step, ctx),
+          { role: "hook", story: ctx.story?.id },
+          { timeoutMs: hook.timeoutMs },
+        );
+        return { action: step.action, status: "passed", output: tail(output) };
+      } catch (err: any) {
+        return { action: step.action, status: "failed", output: tail(err.message || String(err)) };
+      }
+    }
+    // Declarative actions (conditional-update, append-log, ...) are left to the agent steps
+    return { action: step.action, status: "skipped" };
+  }
+}
+
+function runScript(command: string, hook: HookDefinition, ctx: HookContext): Promise<HookStepResult> {
+  const env = {
+    ...process.env,
+    KIRO_WORKFLOW_RUN_ID: ctx.run.id,
+    KIRO_WORKFLOW_STATUS: ctx.run.status,
+    KIRO_WORKFLOW_BRANCH: ctx.run.branch,
+    KIRO_WORKFLOW_EVENT: `${hook.when}:${hook.event}`,
+    ...(ctx.story ? { KIRO_WORKFLOW_STORY: ctx.story.id } : {}),
+  };
+
+  return new Promise((resolve) => {
+    execFile("/bin/sh", ["-c", command], {
+      cwd: ctx.cwd,
+      env,
+      timeout: hook.timeoutMs,
+      killSignal: "SIGKILL",
+      maxBuffer: 10 * 1024 * 1024,
+    }, (err, stdout, stderr) => {
+      let output = `${stdout}${stderr}`.trim();
+      if (err && (err as any).killed) {
+        output += `\n(timed out after ${hook.timeoutMs / 1000}s)`;
+      } else if (err && typeof err.code !== "number") {
+        output += `\n${err.message}`;
+      }
+      resolve({ action: "run-script", status: err ? "failed" : "passed", output: tail(output) });
+    });
+  });
+}
+
+function buildHookPrompt(hook: HookDefinition, step: HookStep, ctx: HookContext): string {
+  const context = [
+    `HOOK: ${hook.name} (${hook.when} ${hook.event})`,
+    `WORKFLOW: ${ctx.run.workflow}`,
+    `TASK: ${ctx.run.task}`,
+    `BRANCH: ${ctx.run.branch}`,
+    ctx.story ? `STORY: ${ctx.story.id} — ${ctx.story.title}` : "",
+    ctx.agent ? `COMPLETED AGENT: ${ctx.agent}` : "",
+  ].filter(Boolean).join("\n");
+  const output = ctx.output?.trim()
+    ? `\n\n${ctx.agent ? `${ctx.agent.toUpperCase()} OUTPUT` : "STEP OUTPUT"}:\n${tail(ctx.output, MAX_STEP_OUTPUT)}`
+    : "";
+  return `${(step.input ?? hook.description).trim()}\n\n${context}${output}`;
+}
+
+function tail(text: string, max = MAX_OUTPUT): string {
+  const trimmed = text.trim();
+  return trimmed.length > max ? `…${trimmed.slice(-max)}` : trimmed;
+}
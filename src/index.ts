@@ -1,8 +1,51 @@
 // Public API
 export { WorkflowOrchestrator } from "./orchestrator.js";
+export type { OrchestratorOptions } from "./orchestrator.js";
+export { WorkflowEvents } from "./events.js";
+export type { WorkflowEvent, WorkflowEventMap, WorkflowEventType } from "./events.js";
 export { RalphLoop } from "./loop/ralph.js";
 export { AgentRunner } from "./loop/agent-runner.js";
+export { parseVerdict } from "./loop/verdict.js";
+export { createCheckpoint, restoreCheckpoint, revertStory } from "./loop/checkpoint.js";
+export type { Checkpoint } from "./loop/checkpoint.js";
 export { AcpClient } from "./acp/client.js";
-export { WORKFLOWS } from "./workflows.js";
+export type { AcpClientOptions, PromptOptions } from "./acp/client.js";
+export {
+  AcpError,
+  AcpTimeoutError,
+  AcpProcessExitedError,
+  AcpRpcError,
+  AcpCancelledError,
+} from "./acp/errors.js";
+export { AcpRequestHandler, RpcError } from "./acp/requests.js";
+export { createBackend, CliBackend, AcpBackend, ScriptedBackend } from "./backends/index.js";
+export type { AgentBackend, AgentBackendKind, ScriptedResponse } from "./backends/index.js";
+export { WORKFLOWS, loadWorkflows, validateWorkflow } from "./workflows.js";
 export { TerminalUI } from "./ui.js";
+export { loadGates, detectGates, runGates, gateFeedback } from "./gates.js";
+export type { QualityGate } from "./gates.js";
+export { NdjsonReporter, EXIT_CODES, exitCodeFor } from "./output.js";
+export {
+  loadRepoSettings,
+  preflight,
+  branchName,
+  createRunBranch,
+  commitChanges,
+  isDenied,
+  isProtectedBranch,
+  DEFAULT_REPO_SETTINGS,
+  SECRET_PATTERNS,
+} from "./repo.js";
+export type { RepoSettings } from "./repo.js";
+export { RunHistory, RUN_SORT_KEYS } from "./history.js";
+export type { RunFilter, RunSortKey, StoryTiming, PruneResult } from "./history.js";
+export { loadSource, writeSourceStatus, parsePrd, parseTasks } from "./sources.js";
+export { HookEngine, loadHooks, parseHook } from "./hooks.js";
+export type { HookDefinition, HookStep, HookContext, HookOutcome } from "./hooks.js";
+export { parseYaml, stringifyYaml } from "./yaml.js";
+export { formatPlan, parsePlan } from "./plan.js";
+export { TerminalReviewer } from "./review.js";
+export type { TerminalReviewerOptions } from "./review.js";
+export { PermissionPolicy, DEFAULT_POLICY } from "./policy.js";
+export type { PolicyConfig, AgentPolicy, PolicyRequest, PolicyVerdict } from "./policy.js";
 export * from "./types.js";
@@ -1,104 +1,138 @@
 /**
  * Agent Runner — executes a Kiro CLI agent with a prompt.
- * Supports CLI mode (shell out) and ACP mode (JSON-RPC).
+ * The call goes through an AgentBackend (CLI, ACP or scripted fixtures);
+ * the runner adds transcript recording on top.
  * Each invocation is a FRESH SESSION (the Ralph pattern).
  */
 
-import { execSync, spawnSync } from "child_process";
-import { RunConfig } from "../types.js";
-import { AcpClient } from "../acp/client.js";
-import { error, warn, log } from "../utils.js";
+import { AgentEvent, PermissionDecision, RunConfig } from "../types.js";
+import { AgentBackend, AgentCallOptions, createBackend } from "../backends/index.js";
+import { AgentCallContext, TranscriptLog } from "../transcript.js";
+import { AcpError } from "../acp/errors.js";
+import { warn } from "../utils.js";
 
 export class AgentRunner {
-  private config: RunConfig;
-  private acpClient?: AcpClient;
-  private cliVerified = false;
+  private backend: AgentBackend;
+  /** When set, every call is recorded to the run's transcript. */
+  public transcript?: TranscriptLog;
+  /** When set, called as each agent call starts. */
+  public onCall?: (agent: string, prompt: string, context: AgentCallContext) => void;
+  /** When set, receives agent output line by line while a call runs. */
+  public onOutput?: (agent: string, line: string, context: AgentCallContext) => void;
+  /** When set, receives every permission policy decision (ACP backend only). */
+  public onPermission?: (decision: PermissionDecision) => void;
+  /** When set, receives live tool calls, plan updates and message chunks (ACP backend only). */
+  public onEvent?: (agent: string, event: AgentEvent, context: AgentCallContext) => void;
+  /** When set, aborting it cancels the call in flight and fails any later call. */
+  public signal?: AbortSignal;
 
-  constructor(config: RunConfig) {
-    this.config = config;
+  constructor(config: RunConfig, transcript?: TranscriptLog) {
+    this.backend = createBackend(config);
+    this.transcript = transcript;
   }
 
   /**
    * Run an agent with a prompt. Returns the agent's full output.
    * Each call is a fresh session — no memory carried over.
    */
-  async run(agent: string, prompt: string): Promise<string> {
-    if (this.config.useAcp) {
-      return this.runAcp(agent, prompt);
+  async run(
+    agent: string,
+    prompt: string,
+    context: AgentCallContext = {},
+    opts: { timeoutMs?: number } = {},
+  ): Promise<string> {
+    const startedAt = new Date();
+    const events: AgentEvent[] = [];
+    this.onCall?.(agent, prompt, context);
+    try {
+      const output = await this.callBackend(agent, prompt, context, events, opts.timeoutMs);
+      this.record(agent, prompt, context, startedAt, events, { status: "ok", output });
+      return output;
+    } catch (err: any) {
+      this.record(agent, prompt, context, startedAt, events, {
+        status: "error",
+        output: err.stdout || "",
+        error: err.message || String(err),
+      });
+      throw err;
     }
-    return this.runCli(agent, prompt);
   }
 
   /**
-   * Verify kiro-cli is installed and authenticated.
-   * Call once before first run to fail fast with a helpful message.
+   * One backend call, retried once when the failure was transient
+   * (e.g. the ACP process died mid-call and has been restarted).
    */
-  private verifyCli(): void {
-    if (this.cliVerified) return;
-
-    const check = spawnSync("which", ["kiro-cli"], { encoding: "utf-8" });
-    if (check.status !== 0) {
-      throw new Error(
-        "kiro-cli not found. Install it:\n" +
-        "  curl -fsSL https://cli.kiro.dev/install | bash\n" +
-        "  export PATH=\"$HOME/.local/bin:$PATH\"\n" +
-        "  kiro-cli login\n\n" +
-        "Or use --acp mode if Kiro is running as a persistent process."
-      );
+  private async callBackend(
+    agent: string,
+    prompt: string,
+    context: AgentCallContext,
+    events: AgentEvent[],
+    timeoutMs?: number,
+  ): Promise<string> {
+    const opts: AgentCallOptions = {
+      timeoutMs,
+      signal: this.signal,
+      onOutput: this.onOutput && ((line) => this.onOutput!(agent, line, context)),
+      onEvent: (event) => {
+        appendEvent(events, event);
+        this.onEvent?.(agent, event, context);
+      },
+      onPermission: this.onPermission && ((request, verdict) => this.onPermission!({
+        at: new Date().toISOString(),
+        ...request,
+        story: context.story,
+        ...verdict,
+      })),
+    };
+    try {
+      return await this.backend.run(agent, prompt, opts);
+    } catch (err) {
+      // Ctrl-C can take the ACP process down with us — that's no reason to restart it
+      if (!(err instanceof AcpError && err.retryable) || this.signal?.aborted) throw err;
+      warn(`[agent-runner] ${err.message} — retrying ${agent} once`);
+      return this.backend.run(agent, prompt, opts);
     }
-    this.cliVerified = true;
   }
 
-  private runCli(agent: string, prompt: string): string {
-    this.verifyCli();
-
-    if (this.config.verbose) {
-      log(`[agent-runner] Invoking kiro-cli --agent ${agent} (timeout: 5m)`);
-    }
-
+  private record(
+    agent: string,
+    prompt: string,
+    context: AgentCallContext,
+    startedAt: Date,
+    events: AgentEvent[],
+    result: { status: "ok" | "error"; output: string; error?: string },
+  ) {
+    if (!this.transcript) return;
     try {
-      const result = execSync(
-        `echo ${JSON.stringify(prompt)} | kiro-cli --agent ${agent}`,
-        {
-          cwd: this.config.projectDir,
-          maxBuffer: 10 * 1024 * 1024, // 10MB
-          timeout: 300_000, // 5 min per agent call
-          encoding: "utf-8",
-        }
-      );
-      return result;
+      this.transcript.record({
+        agent,
+        ...context,
+        prompt,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        ...result,
+        ...(events.length > 0 ? { events } : {}),
+      });
     } catch (err: any) {
-      const output = err.stdout || "";
-      const stderr = err.stderr || "";
-      if (this.config.verbose) {
-        error(`[agent-runner] kiro-cli failed: ${err.message}`);
-        if (stderr) error(`[agent-runner] stderr: ${stderr.slice(0, 500)}`);
-      }
-      // If we got some stdout, the agent may have partially succeeded
-      if (output.length > 50) {
-        warn(`[agent-runner] Agent returned partial output (${output.length} chars)`);
-        return output;
-      }
-      throw new Error(`Agent '${agent}' failed: ${stderr || err.message}`);
+      // A full disk shouldn't fail the run
+      warn(`[agent-runner] Could not write transcript: ${err.message}`);
     }
   }
 
-  private async runAcp(agent: string, prompt: string): Promise<string> {
-    if (!this.acpClient) {
-      this.acpClient = new AcpClient();
-      await this.acpClient.start();
-    }
-
-    // Fresh session per invocation (Ralph pattern)
-    const sessionId = await this.acpClient.newSession(this.config.projectDir);
-    await this.acpClient.setAgent(sessionId, agent);
-    const response = await this.acpClient.prompt(sessionId, prompt);
-    return response;
+  async cleanup() {
+    await this.backend.cleanup();
   }
+}
 
-  async cleanup() {
-    if (this.acpClient) {
-      await this.acpClient.stop();
-    }
+/**
+ * Keep the transcript readable: consecutive message (or thought) chunks are
+ * merged into one event.
+ */
+function appendEvent(events: AgentEvent[], event: AgentEvent) {
+  const last = events[events.length - 1];
+  if ((event.type === "message" || event.type === "thought") && last?.type === event.type) {
+    events[events.length - 1] = { type: event.type, text: last.text + event.text };
+  } else {
+    events.push(event);
   }
 }
@@ -0,0 +1,121 @@
+/**
+ * Story checkpoints — the git state before each story attempt, so a failed
+ * attempt can be undone (`--on-fail`) and a finished story's commits
+ * reverted later (`kiro-workflow rollback`).
+ */
+
+import { execFileSync } from "child_process";
+import { rmSync } from "fs";
+import { join } from "path";
+import { OnFailPolicy, Story } from "../types.js";
+
+export interface Checkpoint {
+  /** HEAD when the attempt started. */
+  sha: string;
+  /** Untracked files that were already there — a reset leaves them alone. */
+  untracked: string[];
+  /**
+   * Uncommitted changes to tracked files that were already there, as a
+   * `git stash create` commit — put back after the attempt is undone.
+   */
+  changes?: string;
+}
+
+/** Run state and transcripts live in the tree but never belong to an attempt. */
+const STATE_DIR = ".kiro/.workflows/";
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync("git", ["--literal-pathspecs", ...args], { cwd, stdio: "pipe", encoding: "utf-8" });
+}
+
+export function headSha(cwd: string): string {
+  return git(cwd, ["rev-parse", "HEAD"]).trim();
+}
+
+export function createCheckpoint(cwd: string): Checkpoint {
+  const changes = git(cwd, ["stash", "create"]).trim();
+  return { sha: headSha(cwd), untracked: untrackedFiles(cwd), ...(changes ? { changes } : {}) };
+}
+
+/**
+ * Undo a failed attempt: `reset` returns the tree to the checkpoint, `stash`
+ * moves the attempt's changes (commits included) into `git stash` under
+ * `label`, `keep` does nothing. Changes that were already uncommitted at the
+ * checkpoint survive both; a file the attempt also edited is stashed as the
+ * attempt left it. Returns a note for the activity log, or undefined when
+ * nothing changed.
+ */
+export function restoreCheckpoint(cwd: string, checkpoint: Checkpoint, policy: OnFailPolicy, label: string): string | undefined {
+  if (policy === "keep") return undefined;
+
+  const before = new Set(checkpoint.untracked);
+  const added = untrackedFiles(cwd).filter((f) => !before.has(f));
+  const moved = headSha(cwd) !== checkpoint.sha;
+
+  if (policy === "stash") {
+    // Commits the attempt made go back to the index, so the stash holds all of it
+    if (moved) git(cwd, ["reset", "--soft", checkpoint.sha]);
+    const paths = [...changedSince(cwd, checkpoint), ...added];
+    if (paths.length === 0) return undefined;
+    git(cwd, ["stash", "push", "--include-untracked", "-m", label, "--", ...paths]);
+    restoreChanges(cwd, checkpoint);
+    return `stashed as "${label}"`;
+  }
+
+  if (!moved && changedSince(cwd, checkpoint).length === 0 && added.length === 0) return undefined;
+  git(cwd, ["reset", "--hard", checkpoint.sha]);
+  for (const file of added) {
+    rmSync(join(cwd, file), { force: true });
+  }
+  restoreChanges(cwd, checkpoint);
+  return `reset to ${checkpoint.sha.slice(0, 7)}`;
+}
+
+/** Tracked files that differ from the tree as it was at the checkpoint. */
+function changedSince(cwd: string, checkpoint: Checkpoint): string[] {
+  return git(cwd, ["diff", "--name-only", "--no-renames", checkpoint.changes ?? "HEAD"])
+    .split("\n")
+    .filter((f) => f && !f.startsWith(STATE_DIR));
+}
+
+/** Put back the uncommitted changes recorded at the checkpoint, staged ones staged. */
+function restoreChanges(cwd: string, checkpoint: Checkpoint) {
+  if (!checkpoint.changes) return;
+  git(cwd, ["reset", "--hard", "HEAD"]);
+  git(cwd, ["stash", "apply", "--index", checkpoint.changes]);
+}
+
+/**
+ * Revert a finished story's commits on the current branch with a single new
+ * commit. Returns the revert commit's SHA.
+ */
+export function revertStory(cwd: string, story: Story): string {
+  if (!story.checkpoint || !story.commit) {
+    throw new Error(`Story ${story.id} has no recorded commit to revert`);
+  }
+  const parents = git(cwd, ["rev-list", "--parents", "-n", "1", story.commit]).trim().split(" ").length - 1;
+  try {
+    if (parents > 1) {
+      // Parallel runs merge each story — undo the merge relative to the run branch
+      git(cwd, ["revert", "--no-commit", "-m", "1", story.commit]);
+    } else {
+      git(cwd, ["revert", "--no-commit", `${story.checkpoint}..${story.commit}`]);
+    }
+    git(cwd, [
+      "commit", "--allow-empty",
+      "-m", `Revert ${story.id}: ${story.title}`,
+      "-m", `This reverts ${story.checkpoint.slice(0, 7)}..${story.commit.slice(0, 7)}.`,
+    ]);
+  } catch (err: any) {
+    try { git(cwd, ["revert", "--abort"]); } catch { /* nothing to abort */ }
+    const detail = String(err.stderr || err.message).trim().split("\n")[0];
+    throw new Error(`Could not revert story ${story.id}: ${detail}`);
+  }
+  return headSha(cwd);
+}
+
+function untrackedFiles(cwd: string): string[] {
+  return git(cwd, ["ls-files", "--others", "--exclude-standard", "-z"])
+    .split("\0")
+    .filter((f) => f && !f.startsWith(STATE_DIR));
+}
@@ -0,0 +1,148 @@
+/**
+ * Prompt templates for the Ralph loop.
+ *
+ * The implementing agent gets a role-specific template (a `fix` step is told
+ * to find the root cause and add a regression test, not to build a feature),
+ * and commits with a conventional-commit type that follows the role.
+ */
+
+import { GateResult, PipelineRole, PipelineStep, Story, WorkflowRun } from "../types.js";
+
+interface RoleTemplate {
+  /** Conventional-commit type used when the step doesn't set `commitType`. */
+  commitType: string;
+  /** Opening line — what the agent is doing this iteration. */
+  intro: string;
+  /** Numbered instructions; `{commit}` is replaced with the commit message. */
+  instructions: string[];
+}
+
+const IMPLEMENT_TEMPLATE: RoleTemplate = {
+  commitType: "feat",
+  intro: "You are implementing a single story",
+  instructions: [
+    "Read the codebase to understand current state",
+    "Implement ONLY this story",
+    "Run quality checks (build, lint, test)",
+    `If checks pass, commit with message: "{commit}"`,
+    "If checks fail, fix them",
+  ],
+};
+
+const ROLE_TEMPLATES: Partial<Record<PipelineRole, RoleTemplate>> = {
+  implement: IMPLEMENT_TEMPLATE,
+  fix: {
+    commitType: "fix",
+    intro: "You are fixing a single issue",
+    instructions: [
+      "Read the code involved and reproduce the problem",
+      "Fix the root cause, not just the symptom — keep the change minimal",
+      "Add a regression test that fails without the fix",
+      "Run quality checks (build, lint, test)",
+      `If checks pass, commit with message: "{commit}"`,
+      "If checks fail, fix them",
+    ],
+  },
+};
+
+function templateFor(step: PipelineStep): RoleTemplate {
+  return ROLE_TEMPLATES[step.role] ?? IMPLEMENT_TEMPLATE;
+}
+
+/**
+ * Commit message for a completed story, e.g. `fix(login-timeout): Retry on 504`.
+ */
+export function commitMessage(step: PipelineStep, story: Story): string {
+  const type = step.commitType ?? templateFor(step).commitType;
+  return `${type}(${story.id}): ${story.title}`;
+}
+
+export function buildImplementPrompt(run: WorkflowRun, step: PipelineStep, story: Story, iteration: number): string {
+  const template = templateFor(step);
+  const done = run.stories.filter((s) => s.status === "done");
+  const completedSummary = done.map((s) => `- [x] ${s.title}`).join("\n");
+  const remainingCount = run.stories.length - done.length;
+  const progressLog = run.progress.join("\n");
+  const commit = commitMessage(step, story);
+  const instructions = template.instructions
+    .map((line, i) => `${i + 1}. ${line.replace("{commit}", commit)}`)
+    .join("\n");
+
+  return `${template.intro} in iteration ${iteration}. Focus ONLY on this story.
+
+## Current Story: ${story.title}
+ID: ${story.id}
+Description: ${story.description}
+
+### Acceptance Criteria:
+${story.acceptanceCriteria.map((c) => `- ${c}`).join("\n")}
+
+### Progress: ${done.length}/${run.stories.length} stories complete, ${remainingCount} remaining
+
+### Completed Stories:
+${completedSummary || "(none yet)"}
+
+${story.verifyFeedback ? `### VERIFY FEEDBACK (fix these issues):\n${story.verifyFeedback}` : ""}
+
+### Progress Log:
+${progressLog || "(no previous progress)"}
+
+## Instructions:
+${instructions}
+
+Do NOT work on other stories. Do NOT refactor unrelated code.`;
+}
+
+export function buildVerifyPrompt(story: Story, passedGates: GateResult[] = []): string {
+  // Quality gates that already passed needn't be re-run by the verifier
+  const ran = new Set(passedGates.map((g) => g.name));
+  const steps = ["Check each acceptance criterion"];
+  if (!ran.has("test")) steps.push("Run the test suite");
+  if (!ran.has("build") && !ran.has("typecheck")) steps.push("Check the build succeeds");
+  const checked = passedGates.length > 0
+    ? `\n## Already Checked:\nThese commands passed after the implementation — don't run them again:\n${passedGates.map((g) => `- \`${g.command}\``).join("\n")}\n`
+    : "";
+
+  return `Verify that the following story has been correctly implemented.
+
+## Story: ${story.title}
+ID: ${story.id}
+
+### Acceptance Criteria:
+${story.acceptanceCriteria.map((c) => `- ${c}`).join("\n")}
+${checked}
+## Instructions:
+${steps.map((s, i) => `${i + 1}. ${s}`).join("\n")}
+
+## Output Format:
+The first line must be exactly one of:
+STATUS: done
+STATUS: retry
+
+Then report every acceptance criterion on its own line:
+- ✅ [criterion] — [evidence]
+- ❌ [criterion] — [what's wrong]`;
+}
+
+/**
+ * Follow-up turn when the verifier's output couldn't be read as a verdict.
+ * Each agent call is a fresh session, so the previous output is quoted back.
+ */
+export function buildClarifyPrompt(story: Story, previousOutput: string): string {
+  return `Your verification of story "${story.title}" (ID: ${story.id}) did not give a clear verdict.
+
+## Your previous output:
+${previousOutput.slice(0, 4000)}
+
+## Acceptance Criteria:
+${story.acceptanceCriteria.map((c) => `- ${c}`).join("\n")}
+
+Do not re-run the whole verification. Restate your conclusion.
+The first line must be exactly one of:
+STATUS: done
+STATUS: retry
+
+Then report every acceptance criterion on its own line:
+- ✅ [criterion] — [evidence]
+- ❌ [criterion] — [what's wrong]`;
+}
@@ -4,10 +4,11 @@
  * Each iteration:
  * 1. Pick the next incomplete story
  * 2. Spawn a fresh agent session (clean context)
- * 3. Agent implements the story
- * 4. Verifier checks acceptance criteria
- * 5. If fail → retry with feedback. If pass → next story.
- * 6. After all stories → run compound agent for learnings.
+ * 3. The step's agent implements the story
+ * 4. Quality gates (build, typecheck, lint, test) run; a failure → retry
+ * 5. The step's verifier checks acceptance criteria
+ * 6. If fail → undo the attempt (`onFail`), retry with feedback. If pass → next story.
+ * 7. After all stories → run compound agent for learnings.
  *
  * Memory persists ONLY through:
  * - Git history (commits from previous iterations)
@@ -15,23 +16,79 @@
  * - Story status (in-memory, tracked by this runner)
  */
 
-import { execSync } from "child_process";
-import { Story, WorkflowRun, RunConfig, DEFAULT_CONFIG } from "../types.js";
+import { Story, WorkflowRun, RunConfig, PipelineStep, DEFAULT_CONFIG } from "../types.js";
 import { AgentRunner } from "./agent-runner.js";
+import { buildImplementPrompt, buildVerifyPrompt, buildClarifyPrompt, commitMessage } from "./prompts.js";
+import { parseVerdict, formatFeedback } from "./verdict.js";
+import { nextReadyStory, blockDependents } from "./schedule.js";
+import { createWorktree, mergeWorktree, removeWorktree, Worktree } from "./worktree.js";
 import { log, success, warn, error } from "../utils.js";
-import { TerminalUI } from "../ui.js";
+import { WorkflowEvents } from "../events.js";
+import { TranscriptLog } from "../transcript.js";
+import { HookEngine } from "../hooks.js";
+import { QualityGate, gateFeedback, loadGates, runGates } from "../gates.js";
+import { Checkpoint, createCheckpoint, headSha, restoreCheckpoint } from "./checkpoint.js";
+import { RepoSettings, assertCommitAllowed, commitChanges, loadRepoSettings } from "../repo.js";
+
+export interface RalphLoopOptions {
+  /** Receives story, agent and activity events. */
+  events?: WorkflowEvents;
+  /** Called after every story attempt — used to persist state. */
+  onStoryEnd?: (run: WorkflowRun) => void;
+  /** Records every agent call the loop makes. */
+  transcript?: TranscriptLog;
+  /** Fires `git-commit` hooks around each story commit. */
+  hooks?: HookEngine;
+  /**
+   * Aborting stops the loop: agent calls and gates in flight are cancelled,
+   * no new story starts, and the interrupted story is left `running`.
+   */
+  signal?: AbortSignal;
+}
+
+interface ParallelOutcome {
+  story: Story;
+  iteration: number;
+  worktree: Worktree;
+  passed: boolean;
+  error?: Error;
+}
+
+/** Follow-up turns a verifier gets when its verdict can't be parsed. */
+const MAX_CLARIFICATIONS = 1;
 
 export class RalphLoop {
   private runner: AgentRunner;
   private config: RunConfig;
   private run: WorkflowRun;
-  public ui?: TerminalUI;
-
-  constructor(run: WorkflowRun, config: Partial<RunConfig> = {}, ui?: TerminalUI) {
+  private step: PipelineStep;
+  private verifier: string;
+  private onStoryEnd?: (run: WorkflowRun) => void;
+  private transcript?: TranscriptLog;
+  private hooks?: HookEngine;
+  private events: WorkflowEvents;
+  private gates: QualityGate[];
+  private signal?: AbortSignal;
+  private repo: RepoSettings;
+
+  constructor(
+    run: WorkflowRun,
+    step: PipelineStep,
+    config: Partial<RunConfig> = {},
+    opts: RalphLoopOptions = {},
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.run = run;
-    this.runner = new AgentRunner(this.config);
-    this.ui = ui;
+    this.step = step;
+    this.verifier = step.verifier ?? "verifier";
+    this.transcript = opts.transcript;
+    this.hooks = opts.hooks;
+    this.events = opts.events ?? new WorkflowEvents();
+    this.signal = opts.signal;
+    this.gates = this.config.gates ? loadGates(this.config.projectDir) : [];
+    this.repo = loadRepoSettings(this.config.projectDir, this.config);
+    this.runner = this.createRunner(this.config);
+    this.onStoryEnd = opts.onStoryEnd;
   }
 
   /**
@@ -43,44 +100,24 @@ export class RalphLoop {
     log(`Stories: ${this.countDone()}/${this.run.stories.length}`);
     log(`Max iterations: ${this.config.maxIterations}`);
 
-    let iteration = 0;
-
-    while (iteration < this.config.maxIterations) {
-      const story = this.getNextStory();
-      if (!story) {
-        success("🎉 All stories complete!");
-        break;
-      }
-
-      iteration++;
-      story.status = "running";
-      this.run.iteration = iteration;
+    // A resumed run may already have failed stories with waiting dependents
+    blockDependents(this.run.stories);
 
-      this.ui?.addActivity("ralph", `Story: ${story.id} — ${story.title}`);
-      this.ui?.render(this.run);
-
-      const passed = await this.runStoryIteration(story, iteration);
-
-      if (passed) {
-        story.status = "done";
-        story.verifyFeedback = undefined;
-        this.appendProgress(story, iteration);
-        this.gitCommit(`feat(${story.id}): ${story.title}`);
-        this.ui?.addActivity("ralph", `✅ ${story.id} done`);
+    try {
+      if (this.config.parallel > 1) {
+        await this.executeParallel();
       } else {
-        story.retryCount++;
-        if (story.retryCount >= story.maxRetries) {
-          story.status = "failed";
-          this.ui?.addActivity("ralph", `❌ ${story.id} failed after ${story.maxRetries} retries`);
-        } else {
-          story.status = "pending";
-          this.ui?.addActivity("verifier", `↩ ${story.id} retry ${story.retryCount}/${story.maxRetries}`);
-          iteration--;
-        }
+        await this.executeSerial();
       }
+    } finally {
+      await this.runner.cleanup();
+    }
+    if (this.signal?.aborted) return this.run;
 
-      this.run.updatedAt = new Date().toISOString();
-      this.ui?.render(this.run);
+    if (this.countRemaining() === 0) {
+      success("🎉 All stories complete!");
+    } else if (this.run.iteration < this.config.maxIterations) {
+      warn(`No runnable stories left — ${this.countRemaining()} not done`);
     }
 
     // Final status
@@ -88,102 +125,241 @@ export class RalphLoop {
     return this.run;
   }
 
-  private async runStoryIteration(story: Story, iteration: number): Promise<boolean> {
-    // Build developer prompt
-    const prompt = this.buildImplementPrompt(story, iteration);
-
-    // Run developer agent (fresh session)
-    this.ui?.addActivity("developer", `Implementing ${story.id}...`);
-    this.ui?.render(this.run);
-    const devOutput = await this.runner.run("developer", prompt);
-
-    if (!this.config.verifyEach) {
-      return true; // No verification, assume success
-    }
-
-    // Run verifier agent (fresh session)
-    this.ui?.addActivity("verifier", `Verifying ${story.id}...`);
-    this.ui?.render(this.run);
-    const verifyPrompt = this.buildVerifyPrompt(story);
-    const verifyOutput = await this.runner.run("verifier", verifyPrompt);
-
-    // Parse verification result
-    const passed = this.parseVerifyResult(verifyOutput);
-    if (!passed) {
-      story.verifyFeedback = verifyOutput;
+  /**
+   * One story at a time, in `config.projectDir`.
+   * Resumed runs continue counting iterations from where they stopped.
+   */
+  private async executeSerial(): Promise<void> {
+    while (this.run.iteration < this.config.maxIterations && !this.signal?.aborted) {
+      const story = this.getNextStory();
+      if (!story) break;
+
+      const iteration = this.startStory(story);
+      const checkpoint = this.checkpoint(story);
+      const passed = await this.runStoryIteration(story, iteration, this.runner, this.config.projectDir)
+        && await this.commitStory(story, this.config.projectDir, this.runner);
+      // A cut-short attempt isn't a failure — the story runs again on resume
+      if (this.signal?.aborted && !passed) break;
+      if (checkpoint && passed) {
+        story.commit = headSha(this.config.projectDir);
+      } else if (checkpoint) {
+        this.restore(story, checkpoint, iteration);
+      }
+      this.settleStory(story, passed, iteration);
     }
-    return passed;
   }
 
-  private buildImplementPrompt(story: Story, iteration: number): string {
-    const completedSummary = this.run.stories
-      .filter((s) => s.status === "done")
-      .map((s) => `- [x] ${s.title}`)
-      .join("\n");
+  /**
+   * Up to `config.parallel` independent stories at once, each in its own git
+   * worktree with its own AgentRunner. Finished stories are merged into the
+   * run branch one at a time as they complete; a conflicting merge sends the
+   * story back for a retry on top of the updated branch.
+   */
+  private async executeParallel(): Promise<void> {
+    const active = new Map<string, Promise<ParallelOutcome>>();
+
+    while (true) {
+      while (active.size < this.config.parallel && this.run.iteration < this.config.maxIterations && !this.signal?.aborted) {
+        const story = nextReadyStory(this.run.stories.filter((s) => !active.has(s.id)));
+        if (!story) break;
+        const iteration = this.startStory(story);
+        active.set(story.id, this.runInWorktree(story, iteration));
+      }
+      if (active.size === 0) break;
 
-    const remainingCount = this.countRemaining();
-    const progressLog = this.run.progress.join("\n");
+      const outcome = await Promise.race(active.values());
+      active.delete(outcome.story.id);
 
-    return `You are implementing a single story in iteration ${iteration}. Focus ONLY on this story.
+      if (outcome.error || this.signal?.aborted) {
+        // Let in-flight stories finish (an interrupt cancels them) before stopping
+        const rest = await Promise.all(active.values());
+        for (const o of [outcome, ...rest]) {
+          removeWorktree(this.config.projectDir, o.worktree);
+        }
+        if (this.signal?.aborted) return;
+        throw outcome.error;
+      }
 
-## Current Story: ${story.title}
-ID: ${story.id}
-Description: ${story.description}
+      let passed = outcome.passed;
+      if (passed) {
+        const checkpoint = headSha(this.config.projectDir);
+        const merge = mergeWorktree(
+          this.config.projectDir,
+          outcome.worktree,
+          `Merge ${commitMessage(this.step, outcome.story)}`,
+        );
+        if (!merge.ok) {
+          passed = false;
+          outcome.story.verifyFeedback =
+            `Merge conflict while merging into ${this.run.branch}` +
+            (merge.conflicts.length ? ` (${merge.conflicts.join(", ")})` : "") +
+            `. Other stories changed the same code — re-implement this story on top of the updated branch.`;
+          this.activity("ralph", `⚠ ${outcome.story.id} merge conflict`);
+        } else {
+          outcome.story.checkpoint = checkpoint;
+          outcome.story.commit = headSha(this.config.projectDir);
+        }
+      }
+      removeWorktree(this.config.projectDir, outcome.worktree);
+      this.settleStory(outcome.story, passed, outcome.iteration);
+    }
+  }
 
-### Acceptance Criteria:
-${story.acceptanceCriteria.map((c) => `- ${c}`).join("\n")}
+  private async runInWorktree(story: Story, iteration: number): Promise<ParallelOutcome> {
+    const worktree = createWorktree(this.config.projectDir, this.run, story);
+    const runner = this.createRunner({ ...this.config, projectDir: worktree.path });
+    try {
+      const passed = await this.runStoryIteration(story, iteration, runner, worktree.path)
+        && await this.commitStory(story, worktree.path, runner, worktree.links);
+      return { story, iteration, worktree, passed };
+    } catch (error: any) {
+      return { story, iteration, worktree, passed: false, error };
+    } finally {
+      await runner.cleanup();
+    }
+  }
 
-### Progress: ${this.countDone()}/${this.run.stories.length} stories complete, ${remainingCount} remaining
+  private createRunner(config: RunConfig): AgentRunner {
+    const runner = new AgentRunner(config, this.transcript);
+    runner.signal = this.signal;
+    runner.onCall = (agent, prompt, context) => this.events.emit("agent:call", { agent, ...context, prompt });
+    runner.onOutput = (agent, line, context) => this.events.emit("agent:output", { agent, story: context.story, line });
+    runner.onEvent = (agent, event, context) => this.events.emit("agent:event", { agent, story: context.story, event });
+    runner.onPermission = (decision) => {
+      this.run.permissions.push(decision);
+      if (!decision.allowed) this.activity(decision.agent, `⛔ ${decision.kind} ${decision.target} — ${decision.reason}`);
+    };
+    return runner;
+  }
 
-### Completed Stories:
-${completedSummary || "(none yet)"}
+  private startStory(story: Story): number {
+    const iteration = ++this.run.iteration;
+    story.status = "running";
 
-${story.verifyFeedback ? `### VERIFY FEEDBACK (fix these issues):\n${story.verifyFeedback}` : ""}
+    this.events.emit("story:start", { run: this.run, story, iteration });
+    return iteration;
+  }
 
-### Progress Log:
-${progressLog || "(no previous progress)"}
+  /**
+   * Record the outcome of one story attempt. A retry gives its iteration back.
+   */
+  private settleStory(story: Story, passed: boolean, iteration: number) {
+    let blocked: Story[] = [];
+    if (passed) {
+      story.status = "done";
+      story.verifyFeedback = undefined;
+      this.appendProgress(story, iteration);
+    } else {
+      story.retryCount++;
+      if (story.retryCount >= story.maxRetries) {
+        story.status = "failed";
+        blocked = blockDependents(this.run.stories);
+      } else {
+        story.status = "pending";
+        this.run.iteration--;
+      }
+    }
 
-## Instructions:
-1. Read the codebase to understand current state
-2. Implement ONLY this story
-3. Run quality checks (build, lint, test)
-4. If checks pass, commit with message: "feat(${story.id}): ${story.title}"
-5. If checks fail, fix them
+    this.run.updatedAt = new Date().toISOString();
+    this.onStoryEnd?.(this.run);
 
-Do NOT work on other stories. Do NOT refactor unrelated code.`;
+    if (passed) {
+      this.events.emit("story:verified", { run: this.run, story, iteration });
+    } else {
+      this.events.emit("story:failed", { run: this.run, story, iteration, retrying: story.status === "pending" });
+    }
+    for (const b of blocked) {
+      this.activity("ralph", `⊘ ${b.id} blocked`);
+    }
   }
 
-  private buildVerifyPrompt(story: Story): string {
-    return `Verify that the following story has been correctly implemented.
+  private async runStoryIteration(story: Story, iteration: number, runner: AgentRunner, cwd: string): Promise<boolean> {
+    const agent = this.step.agent;
+    const prompt = buildImplementPrompt(this.run, this.step, story, iteration);
+
+    // Run implementing agent (fresh session)
+    this.activity(agent, `${this.step.role === "fix" ? "Fixing" : "Implementing"} ${story.id}...`);
+    const devOutput = await runner.run(agent, prompt, { role: this.step.role, story: story.id });
+
+    // Deterministic checks first — cheaper than a verifier call, and they can't be talked round
+    if (this.gates.length > 0) {
+      story.gateResults = await runGates(this.gates, cwd, this.config.gateTimeoutMs, (gate) => {
+        this.activity("gates", `${gate.passed ? "✓" : "✗"} ${story.id} ${gate.name}: ${gate.command}`);
+      }, this.signal);
+      const failed = story.gateResults.find((g) => !g.passed);
+      if (failed) {
+        story.verifyResult = undefined;
+        story.verifyFeedback = gateFeedback(failed);
+        return false;
+      }
+    }
 
-## Story: ${story.title}
-ID: ${story.id}
+    if (!this.config.verifyEach) {
+      return true; // No verification, assume success
+    }
 
-### Acceptance Criteria:
-${story.acceptanceCriteria.map((c) => `- ${c}`).join("\n")}
+    // Run verifier agent (fresh session)
+    this.activity(this.verifier, `Verifying ${story.id}...`);
+    let verifyOutput = await runner.run(
+      this.verifier,
+      buildVerifyPrompt(story, story.gateResults ?? []),
+      { role: "verify", story: story.id },
+    );
+    let result = parseVerdict(verifyOutput);
+
+    // Ambiguous output goes back to the verifier rather than counting as a failure
+    for (let i = 0; i < MAX_CLARIFICATIONS && result.verdict === "unclear"; i++) {
+      this.activity(this.verifier, `? ${story.id} verdict unclear, asking again`);
+      verifyOutput = await runner.run(
+        this.verifier,
+        buildClarifyPrompt(story, verifyOutput),
+        { role: "verify", story: story.id },
+      );
+      result = parseVerdict(verifyOutput);
+    }
 
-## Instructions:
-1. Check each acceptance criterion
-2. Run the test suite
-3. Check the build succeeds
+    story.verifyResult = result;
+    const passed = result.verdict === "pass";
+    if (!passed) {
+      story.verifyFeedback = formatFeedback(result);
+    }
+    return passed;
+  }
 
-## Output Format:
-Start your response with exactly one of:
-- PASS: All criteria met
-- FAIL: [list what failed]
+  /**
+   * Record where a serial attempt starts. A repository without commits has no
+   * checkpoint, and its failed attempts are kept.
+   */
+  private checkpoint(story: Story): Checkpoint | undefined {
+    try {
+      const checkpoint = createCheckpoint(this.config.projectDir);
+      story.checkpoint = checkpoint.sha;
+      return checkpoint;
+    } catch {
+      return undefined;
+    }
+  }
 
-Then provide details for each criterion:
-- ✅ PASS: [criterion] — [evidence]
-- ❌ FAIL: [criterion] — [what's wrong]`;
+  /**
+   * Undo a failed attempt per `config.onFail`, so the retry (or the next
+   * story) doesn't start on top of it.
+   */
+  private restore(story: Story, checkpoint: Checkpoint, iteration: number) {
+    try {
+      const label = `kiro-workflow ${this.run.id} ${story.id} attempt ${iteration}`;
+      const note = restoreCheckpoint(this.config.projectDir, checkpoint, this.config.onFail, label);
+      if (note) this.activity("ralph", `↺ ${story.id} ${note}`);
+    } catch (err: any) {
+      warn(`Could not restore ${story.id} to its checkpoint: ${err.message}`);
+    }
   }
 
-  private parseVerifyResult(output: string): boolean {
-    const firstLines = output.split("\n").slice(0, 5).join("\n");
-    return /^PASS/im.test(firstLines);
+  private activity(agent: string, message: string) {
+    this.events.emit("activity", { run: this.run, agent, message });
   }
 
   private getNextStory(): Story | undefined {
-    return this.run.stories.find((s) => s.status === "pending" || s.status === "running");
+    return nextReadyStory(this.run.stories);
   }
 
   private countDone(): number {
@@ -200,14 +376,37 @@ Then provide details for each criterion:
     );
   }
 
-  private gitCommit(message: string) {
+  /**
+   * Commit a verified story, wrapped in its `git-commit` hooks. A blocking
+   * hook failure or a rejected commit fails the attempt with the output as
+   * feedback; a failing before-hook also skips the commit. A protected
+   * branch fails the run.
+   */
+  private async commitStory(story: Story, cwd: string, runner: AgentRunner, exclude?: string[]): Promise<boolean> {
+    assertCommitAllowed(cwd, this.repo);
+    const ctx = { run: this.run, cwd, runner, story };
+    const before = await this.hooks?.fire("git-commit", "before", ctx);
+    if (before?.blocked) {
+      story.verifyFeedback = before.feedback;
+      return false;
+    }
+
+    let skipped: string[];
     try {
-      execSync(`git add -A && git commit -m "${message}" --allow-empty`, {
-        cwd: this.config.projectDir,
-        stdio: "pipe",
-      });
-    } catch {
-      // Non-fatal — maybe nothing to commit
+      ({ skipped } = commitChanges(cwd, commitMessage(this.step, story), this.repo, exclude));
+    } catch (err: any) {
+      story.verifyFeedback = `${err.message}\nFix the problem so the story can be committed.`;
+      return false;
+    }
+    if (skipped.length > 0) {
+      this.activity("ralph", `⚠ ${story.id}: left out of the commit (deny rules): ${skipped.join(", ")}`);
+    }
+
+    const after = await this.hooks?.fire("git-commit", "after", ctx);
+    if (after?.blocked) {
+      story.verifyFeedback = after.feedback;
+      return false;
     }
+    return true;
   }
 }
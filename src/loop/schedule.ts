@@ -0,0 +1,77 @@
+/**
+ * Dependency-aware story scheduling.
+ *
+ * Stories declare `dependsOn` ids. The plan is sorted topologically (planner
+ * order breaks ties), a story only runs once everything it depends on is
+ * `done`, and a story whose dependency failed is marked `blocked` instead of
+ * running on a broken base.
+ */
+
+import { Story } from "../types.js";
+
+/**
+ * Return the stories in dependency order. Throws if the graph has a cycle.
+ */
+export function sortByDependencies(stories: Story[]): Story[] {
+  const byId = new Map(stories.map((s) => [s.id, s]));
+  const sorted: Story[] = [];
+  const state = new Map<string, "visiting" | "visited">();
+
+  const visit = (story: Story, path: string[]) => {
+    const seen = state.get(story.id);
+    if (seen === "visited") return;
+    if (seen === "visiting") {
+      const cycle = [...path.slice(path.indexOf(story.id)), story.id];
+      throw new Error(`Story dependency cycle: ${cycle.join(" → ")}`);
+    }
+
+    state.set(story.id, "visiting");
+    for (const dep of story.dependsOn ?? []) {
+      const target = byId.get(dep);
+      if (target) visit(target, [...path, story.id]);
+    }
+    state.set(story.id, "visited");
+    sorted.push(story);
+  };
+
+  for (const story of stories) visit(story, []);
+  return sorted;
+}
+
+/**
+ * The first pending (or interrupted) story whose dependencies are all done.
+ */
+export function nextReadyStory(stories: Story[]): Story | undefined {
+  const done = new Set(stories.filter((s) => s.status === "done").map((s) => s.id));
+  return stories.find(
+    (s) => (s.status === "pending" || s.status === "running") &&
+      (s.dependsOn ?? []).every((dep) => done.has(dep))
+  );
+}
+
+/**
+ * Mark every not-yet-run story that depends, directly or transitively, on a
+ * failed or blocked story as `blocked`. Returns the newly blocked stories.
+ */
+export function blockDependents(stories: Story[]): Story[] {
+  const broken = new Set(
+    stories.filter((s) => s.status === "failed" || s.status === "blocked").map((s) => s.id)
+  );
+  const blocked: Story[] = [];
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const story of stories) {
+      if (story.status !== "pending") continue;
+      if ((story.dependsOn ?? []).some((dep) => broken.has(dep))) {
+        story.status = "blocked";
+        broken.add(story.id);
+        blocked.push(story);
+        changed = true;
+      }
+    }
+  }
+
+  return blocked;
+}
@@ -0,0 +1,182 @@
+/**
+ * Verifier verdict parser.
+ *
+ * Understands the three ways a verifier reports back:
+ *   - the shipped verifier agent's protocol: `STATUS: done|retry` followed by
+ *     `VERIFIED:` / `ISSUES:` bullet lists
+ *   - the legacy `PASS` / `FAIL` first line with ✅/❌ criterion lines
+ *   - a JSON object: `{ "status": "done", "criteria": [{ "criterion", "passed", "evidence" }] }`
+ *
+ * Output that matches none of them, or contradicts itself (a `done` status with
+ * a failed criterion), comes back as `unclear` so the loop can ask the verifier
+ * to clarify instead of counting it as a failure.
+ */
+
+import { CriterionResult, VerifyResult } from "../types.js";
+
+const PASS_WORDS = ["done", "pass", "passed", "approve", "approved", "ok"];
+const FAIL_WORDS = ["retry", "fail", "failed", "reject", "rejected"];
+
+export function parseVerdict(output: string): VerifyResult {
+  return parseJsonVerdict(output) ?? parseTextVerdict(output);
+}
+
+/**
+ * Turn a failed verdict into feedback for the implementing agent. Falls back
+ * to the raw output when nothing structured could be extracted.
+ */
+export function formatFeedback(result: VerifyResult): string {
+  const failed = result.criteria.filter((c) => !c.passed);
+  if (failed.length === 0 && result.issues.length === 0) {
+    return result.raw;
+  }
+
+  const lines: string[] = [];
+  for (const c of failed) {
+    lines.push(`❌ FAIL: ${c.criterion}${c.evidence ? ` — ${c.evidence}` : ""}`);
+  }
+  for (const issue of result.issues) {
+    lines.push(`- ${issue}`);
+  }
+  for (const c of result.criteria.filter((c) => c.passed)) {
+    lines.push(`✅ PASS: ${c.criterion}`);
+  }
+  return lines.join("\n");
+}
+
+function classify(word: string): "pass" | "fail" | undefined {
+  const w = word.toLowerCase();
+  if (PASS_WORDS.includes(w)) return "pass";
+  if (FAIL_WORDS.includes(w)) return "fail";
+  return undefined;
+}
+
+/**
+ * A status that disagrees with the per-criterion results is ambiguous.
+ */
+function reconcile(
+  status: "pass" | "fail" | undefined,
+  criteria: CriterionResult[],
+  issues: string[],
+  raw: string,
+): VerifyResult {
+  let verdict: VerifyResult["verdict"] = status ?? "unclear";
+  if (status === "pass" && (criteria.some((c) => !c.passed) || issues.length > 0)) {
+    verdict = "unclear";
+  }
+  return { verdict, criteria, issues, raw };
+}
+
+// ── JSON ──────────────────────────────────────────────────────────────────
+
+function parseJsonVerdict(output: string): VerifyResult | undefined {
+  const fenced = output.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+  const candidate = fenced ? fenced[1] : output.trim();
+  if (!candidate.startsWith("{")) return undefined;
+
+  let obj: any;
+  try {
+    obj = JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+  if (!obj || typeof obj !== "object") return undefined;
+
+  let status: "pass" | "fail" | undefined;
+  const word = obj.status ?? obj.verdict ?? obj.result;
+  if (typeof word === "string") status = classify(word);
+  else if (typeof obj.passed === "boolean") status = obj.passed ? "pass" : "fail";
+
+  const criteria: CriterionResult[] = Array.isArray(obj.criteria)
+    ? obj.criteria.map((c: any) => ({
+        criterion: String(c.criterion ?? c.name ?? ""),
+        passed: typeof c.passed === "boolean" ? c.passed : classify(String(c.status ?? "")) === "pass",
+        evidence: String(c.evidence ?? c.reason ?? ""),
+      }))
+    : [];
+  const issues: string[] = Array.isArray(obj.issues) ? obj.issues.map(String) : [];
+
+  return reconcile(status, criteria, issues, output);
+}
+
+// ── Text protocols ────────────────────────────────────────────────────────
+
+function parseTextVerdict(output: string): VerifyResult {
+  const lines = output.split("\n").map((l) => stripMarkdown(l));
+  const criteria: CriterionResult[] = [];
+  const issues: string[] = [];
+  const statuses = new Set<"pass" | "fail">();
+  let section: "verified" | "issues" | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line) continue;
+
+    // STATUS: done | retry — anywhere in the output
+    const status = line.match(/^STATUS\s*:\s*(\w+)/i);
+    if (status) {
+      const s = classify(status[1]);
+      if (s) statuses.add(s);
+      continue;
+    }
+
+    // PASS / FAIL protocol — only as a leading line, so criterion lines don't count
+    const legacy = line.match(/^(PASS|FAIL)\b/i);
+    if (legacy && i < 5 && criteria.length === 0) {
+      statuses.add(classify(legacy[1])!);
+      continue;
+    }
+
+    const header = line.match(/^(VERIFIED|ISSUES)\s*:?\s*$/i);
+    if (header) {
+      section = header[1].toUpperCase() === "VERIFIED" ? "verified" : "issues";
+      continue;
+    }
+
+    const item = bulletText(line);
+    if (item === undefined) continue;
+
+    const marked = parseMarkedCriterion(item);
+    if (marked) {
+      criteria.push(marked);
+    } else if (section === "verified") {
+      const [criterion, evidence] = splitEvidence(item);
+      criteria.push({ criterion, passed: true, evidence });
+    } else if (section === "issues") {
+      issues.push(item);
+    }
+  }
+
+  // Both "done" and "retry" present — can't tell which one the verifier meant
+  const status = statuses.size === 1 ? [...statuses][0] : undefined;
+  return reconcile(status, criteria, issues, output);
+}
+
+function stripMarkdown(line: string): string {
+  return line.trim().replace(/^#+\s*/, "").replace(/\*\*|__|`/g, "").trim();
+}
+
+function bulletText(line: string): string | undefined {
+  const m = line.match(/^(?:[-*•]|\d+[.)])\s+(.*)$/);
+  if (m) return m[1].trim();
+  // Unbulleted ✅/❌ lines are criteria too
+  if (/^(✅|❌|✔|✗|✖)/.test(line)) return line;
+  return undefined;
+}
+
+function parseMarkedCriterion(item: string): CriterionResult | undefined {
+  const m = item.match(/^(✅|✔️?|\[x\]|❌|✗|✖️?|\[ \])?\s*(PASS|FAIL)?\s*:?\s*(.*)$/i);
+  if (!m || (!m[1] && !m[2])) return undefined;
+
+  const passed = m[2]
+    ? m[2].toUpperCase() === "PASS"
+    : /^(✅|✔|\[x\])/i.test(m[1]);
+  const [criterion, evidence] = splitEvidence(m[3]);
+  return { criterion, passed, evidence };
+}
+
+function splitEvidence(text: string): [string, string] {
+  const parts = text.split(/\s+(?:—|–|--|-)\s+/);
+  const criterion = parts[0].replace(/^\[(.*)\]$/, "$1").trim();
+  return [criterion, parts.slice(1).join(" — ").trim()];
+}
@@ -0,0 +1,111 @@
+/**
+ * Git worktree helpers for parallel story execution.
+ *
+ * Each story attempt gets its own worktree on a per-story branch cut from the
+ * run branch, so agents working on independent stories never see each other's
+ * half-finished edits. Finished stories are merged back into the run branch.
+ */
+
+import { execFileSync } from "child_process";
+import { existsSync, mkdirSync, symlinkSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Story, WorkflowRun } from "../types.js";
+
+export interface Worktree {
+  path: string;
+  branch: string;
+  /**
+   * Dependency directories symlinked in from the project. A `node_modules/`
+   * rule doesn't match a symlink, so story commits leave these out by name.
+   */
+  links?: string[];
+}
+
+/**
+ * Installed dependencies a fresh checkout lacks. Linked into each worktree
+ * from the project, so quality gates there can build and test.
+ */
+const DEPENDENCY_DIRS = ["node_modules", ".venv"];
+
+export type MergeResult = { ok: true } | { ok: false; conflicts: string[] };
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync("git", args, { cwd, stdio: "pipe", encoding: "utf-8" });
+}
+
+/**
+ * Create (or recreate, for a retry) a worktree for a story at the current
+ * tip of the run branch.
+ */
+export function createWorktree(projectDir: string, run: WorkflowRun, story: Story): Worktree {
+  const path = join(tmpdir(), "kiro-workflows", run.id, story.id);
+  const branch = `${run.branch}--${story.id}`;
+
+  if (existsSync(path)) {
+    removeWorktree(projectDir, { path, branch });
+  }
+  mkdirSync(join(tmpdir(), "kiro-workflows", run.id), { recursive: true });
+
+  // -B resets the story branch if a previous attempt left it behind
+  git(projectDir, ["worktree", "add", "-B", branch, path, run.branch]);
+  return { path, branch, links: linkDependencies(projectDir, path) };
+}
+
+/**
+ * Symlink the project's git-ignored dependency directories into a worktree.
+ * Returns the links made.
+ */
+function linkDependencies(projectDir: string, worktreePath: string): string[] {
+  const links: string[] = [];
+  for (const name of DEPENDENCY_DIRS) {
+    const source = join(projectDir, name);
+    if (!existsSync(source) || existsSync(join(worktreePath, name)) || !isIgnored(projectDir, name)) continue;
+    symlinkSync(source, join(worktreePath, name), "dir");
+    links.push(name);
+  }
+  return links;
+}
+
+function isIgnored(cwd: string, path: string): boolean {
+  try {
+    git(cwd, ["check-ignore", "-q", path]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Merge a story branch into the run branch checked out in `projectDir`.
+ * A conflicting merge is aborted and the conflicting files are returned.
+ */
+export function mergeWorktree(projectDir: string, worktree: Worktree, message: string): MergeResult {
+  try {
+    git(projectDir, ["merge", "--no-ff", "-m", message, worktree.branch]);
+    return { ok: true };
+  } catch {
+    let conflicts: string[] = [];
+    try {
+      conflicts = git(projectDir, ["diff", "--name-only", "--diff-filter=U"]).split("\n").filter(Boolean);
+      git(projectDir, ["merge", "--abort"]);
+    } catch {
+      // Merge never started (e.g. dirty tree) — nothing to abort
+    }
+    return { ok: false, conflicts };
+  }
+}
+
+export function removeWorktree(projectDir: string, worktree: Worktree) {
+  try {
+    git(projectDir, ["worktree", "remove", "--force", worktree.path]);
+  } catch {
+    // Already gone — prune stale metadata below
+    try { git(projectDir, ["worktree", "prune"]); } catch { /* ignore */ }
+  }
+  try {
+    git(projectDir, ["branch", "-D", worktree.branch]);
+  } catch {
+    // Branch was never created
+  }
+}
@@ -3,120 +3,459 @@
  *
  * Usage:
  *   const wf = new WorkflowOrchestrator();
+ *   wf.events.on("story:verified", ({ story }) => console.log(`${story.id} done`));
  *   await wf.run("feature-dev", "Add OAuth2 authentication");
+ *   await wf.run("feature-dev", "", { source: { kind: "prd", path: "/repo/prd.json" } });
  *
  * Internally: plans → loops through stories → verifies → tests → reviews → extracts learnings.
  * All Ralph loop artifacts are hidden from the user.
  */
 
 import { randomUUID } from "crypto";
-import { execSync } from "child_process";
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
-import { join } from "path";
-import { WorkflowRun, WorkflowType, Story, RunConfig, DEFAULT_CONFIG } from "./types.js";
-import { WORKFLOWS } from "./workflows.js";
+import { execFileSync } from "child_process";
+import { basename } from "path";
+import { WorkflowRun, WorkflowType, HookTiming, WorkflowPipeline, PipelineStep, PipelineRole, Story, StorySource, RunConfig, ReviewDecision, StepReview, DEFAULT_CONFIG } from "./types.js";
+import { loadWorkflows } from "./workflows.js";
 import { RalphLoop } from "./loop/ralph.js";
+import { formatPlan, parsePlan, parseStories } from "./plan.js";
+import { loadSource, writeSourceStatus } from "./sources.js";
+import { parseFindings, isBlocking, findingsToStories } from "./findings.js";
 import { AgentRunner } from "./loop/agent-runner.js";
+import { revertStory } from "./loop/checkpoint.js";
+import { RepoSettings, branchName, createRunBranch, isProtectedBranch, loadRepoSettings, preflight } from "./repo.js";
 import { log, success, warn, error } from "./utils.js";
 import { TerminalUI } from "./ui.js";
+import { TranscriptLog } from "./transcript.js";
+import { RunHistory } from "./history.js";
+import { HookEngine } from "./hooks.js";
+import { WorkflowEvents } from "./events.js";
+import { EXIT_CODES } from "./output.js";
+import { killProcessGroups } from "./processes.js";
+
+/** Steps whose output is scanned for findings. */
+const FINDING_ROLES: PipelineRole[] = ["review", "test"];
+
+const FINDINGS_FORMAT = `
+
+Report every problem you find on its own line, in this format:
+[SEVERITY] file:line — description
+
+SEVERITY is one of CRITICAL, HIGH, MEDIUM, LOW, INFO. Use CRITICAL or HIGH only
+for problems that must be fixed before merge (bugs, security issues, failing tests).`;
+
+export interface OrchestratorOptions {
+  /** Show the live terminal display (default: true). Set false when embedding with your own UI. */
+  ui?: boolean;
+  /**
+   * Handle SIGINT and SIGTERM while a run is active (default: true). The first
+   * interrupts the run, a second quits at once. Set false to call
+   * `interrupt()` yourself.
+   */
+  handleSignals?: boolean;
+}
 
 export class WorkflowOrchestrator {
   private config: RunConfig;
   private runner: AgentRunner;
-  private stateDir: string;
-  public ui: TerminalUI;
+  private history: RunHistory;
+  private workflows: Record<string, WorkflowPipeline>;
+  private hooks: HookEngine;
+  private handleSignals: boolean;
+  private repo: RepoSettings;
+  /** Aborted to interrupt the active run. */
+  private abort?: AbortController;
+  /** Everything the run does, as typed events. */
+  public readonly events = new WorkflowEvents();
+  public ui?: TerminalUI;
+  /**
+   * Decides at review pauses (`reviewPlan`, `pauseAfter`). Without one, the
+   * run stops at the first pause, saved for `resume`.
+   */
+  public onReview?: (review: StepReview) => Promise<ReviewDecision>;
 
-  constructor(config: Partial<RunConfig> = {}) {
+  constructor(config: Partial<RunConfig> = {}, opts: OrchestratorOptions = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.runner = new AgentRunner(this.config);
-    this.stateDir = join(this.config.projectDir, ".kiro", ".workflows");
-    this.ui = new TerminalUI({ enabled: !config.verbose });
+    this.history = new RunHistory(this.config.projectDir);
+    this.workflows = loadWorkflows(this.config.projectDir);
+    this.hooks = HookEngine.load(this.config.projectDir);
+    this.handleSignals = opts.handleSignals !== false;
+    this.repo = loadRepoSettings(this.config.projectDir, this.config);
+    if (opts.ui !== false) {
+      this.ui = new TerminalUI({ enabled: !config.verbose });
+      this.ui.subscribe(this.events);
+    }
+    this.runner.onCall = (agent, prompt, context) => this.events.emit("agent:call", { agent, ...context, prompt });
+    this.runner.onOutput = (agent, line, context) => this.events.emit("agent:output", { agent, story: context.story, line });
+    this.runner.onEvent = (agent, event, context) => this.events.emit("agent:event", { agent, story: context.story, event });
   }
 
   /**
    * Run a complete workflow end-to-end.
    */
-  async run(workflow: WorkflowType, task: string): Promise<WorkflowRun> {
-    const pipeline = WORKFLOWS[workflow];
+  async run(workflow: WorkflowType, task: string, opts: { source?: StorySource } = {}): Promise<WorkflowRun> {
+    const pipeline = this.workflows[workflow];
     if (!pipeline) {
-      throw new Error(`Unknown workflow: ${workflow}. Available: ${Object.keys(WORKFLOWS).join(", ")}`);
+      throw new Error(`Unknown workflow: ${workflow}. Available: ${Object.keys(this.workflows).join(", ")}`);
     }
+    this.checkPauseSteps(pipeline);
 
-    // Set up UI
-    const stepNames = pipeline.steps.map(s => s.agent);
-    this.ui.setPipeline(stepNames);
-    this.ui.addActivity("orchestrator", `Starting ${workflow}`);
+    // Stories from an existing plan replace the planning step
+    const loaded = opts.source ? loadSource(opts.source, this.config.maxRetries) : undefined;
 
-    // Create branch
-    const branchName = `workflow/${workflow}/${Date.now()}`;
-    this.gitCheckout(branchName);
+    // Check the repository, then create the run branch
+    const id = randomUUID().slice(0, 8);
+    const branch = branchName(this.repo.branchTemplate, { workflow, id, task: task || loaded?.title || "" });
+    preflight(this.config.projectDir, this.repo, { branch, allowDirty: this.config.allowDirty, source: opts.source });
+    createRunBranch(this.config.projectDir, branch, this.repo);
 
     // Initialize run
     const run: WorkflowRun = {
-      id: randomUUID().slice(0, 8),
+      id,
       workflow,
-      task,
-      status: "planning",
-      stories: [],
-      branch: branchName,
+      task: task || loaded?.title || "",
+      status: loaded ? "running" : "planning",
+      stories: loaded?.stories ?? [],
+      branch,
       progress: [],
       learnings: [],
+      findings: [],
+      permissions: [],
+      hooks: [],
+      ...(opts.source ? { source: opts.source } : {}),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       iteration: 0,
       maxIterations: this.config.maxIterations,
+      currentStep: 0,
+    };
+
+    this.events.emit("run:start", { run, pipeline, resumed: false });
+    if (loaded) {
+      const done = loaded.stories.filter((s) => s.status === "done").length;
+      this.activity(run, "orchestrator", `Loaded ${loaded.stories.length} stories (${done} done) from ${basename(opts.source!.path)}`);
+      this.events.emit("plan:ready", { run, stories: run.stories });
+    }
+    return this.executePipeline(run);
+  }
+
+  /**
+   * Stop the active run: agent calls and gates in flight are cancelled, no
+   * new work starts, and `run()` or `resume()` returns the run saved as
+   * `interrupted`. Does nothing between runs.
+   */
+  interrupt() {
+    this.abort?.abort();
+  }
+
+  /**
+   * Resume an interrupted or failed run from its saved state.
+   * Completed pipeline steps and `done` stories are skipped.
+   */
+  async resume(runId: string): Promise<WorkflowRun> {
+    const run = this.history.load(runId);
+    if (run.status === "done") {
+      throw new Error(`Run ${runId} is already done`);
+    }
+    if (!this.workflows[run.workflow]) {
+      throw new Error(`Run ${runId} uses unknown workflow: ${run.workflow}`);
+    }
+    this.checkPauseSteps(this.workflows[run.workflow]);
+
+    this.checkoutRunBranch(run.branch);
+
+    this.requeueRunning(run);
+    run.currentStep = run.currentStep ?? 0;
+    run.findings = run.findings ?? [];
+    run.permissions = run.permissions ?? [];
+    run.hooks = run.hooks ?? [];
+    run.maxIterations = this.config.maxIterations;
+    run.status = run.stories.length > 0 ? "running" : "planning";
+
+    this.events.emit("run:start", { run, pipeline: this.workflows[run.workflow], resumed: true });
+    return this.executePipeline(run);
+  }
+
+  /**
+   * Revert a done story's commits on the run branch with one new commit and
+   * set the story back to pending. Done stories that depend on it are
+   * returned — their code may rely on what was reverted.
+   */
+  rollback(runId: string, storyId: string): { commit: string; dependents: string[] } {
+    const run = this.history.load(runId);
+    const story = run.stories.find((s) => s.id === storyId);
+    if (!story) {
+      throw new Error(`Run ${runId} has no story ${storyId}. Stories: ${run.stories.map((s) => s.id).join(", ")}`);
+    }
+    if (story.status !== "done") {
+      throw new Error(`Story ${storyId} is ${story.status} — only done stories can be rolled back`);
+    }
+
+    this.checkoutRunBranch(run.branch);
+    const commit = revertStory(this.config.projectDir, story);
+
+    story.status = "pending";
+    story.retryCount = 0;
+    story.commit = undefined;
+    run.progress.push(`[rollback] ${story.id} reverted in ${commit.slice(0, 7)}`);
+    run.updatedAt = new Date().toISOString();
+    this.history.save(run);
+    if (run.source) writeSourceStatus(run.source, run.stories);
+
+    const dependents = run.stories.filter((s) => s.status === "done" && s.dependsOn.includes(storyId)).map((s) => s.id);
+    return { commit, dependents };
+  }
+
+  /**
+   * Run the pipeline from `run.currentStep` to the end, persisting after each step.
+   */
+  private async executePipeline(run: WorkflowRun): Promise<WorkflowRun> {
+    const pipeline = this.workflows[run.workflow];
+    this.runner.transcript = new TranscriptLog(this.history.stateDir, run.id);
+    this.runner.onPermission = (decision) => {
+      run.permissions.push(decision);
+      if (!decision.allowed) this.activity(run, decision.agent, `⛔ ${decision.kind} ${decision.target} — ${decision.reason}`);
+    };
+    this.hooks.onResult = (result) => {
+      const icon = result.status === "passed" ? "✓" : result.blocking ? "❌" : "⚠";
+      this.activity(run, "hooks", `${icon} ${result.hook} (${result.when} ${result.event}${result.story ? ` ${result.story}` : ""})`);
     };
 
-    this.saveState(run);
-    this.ui.render(run);
+    const abort = new AbortController();
+    this.abort = abort;
+    this.runner.signal = abort.signal;
+    abort.signal.addEventListener("abort", () => {
+      this.activity(run, "orchestrator", "⏸ Interrupting — cancelling the current agent call (Ctrl-C again to quit now)");
+    });
+    const removeSignalHandlers = this.handleSignals ? this.installSignalHandlers(run) : () => {};
+
+    this.history.save(run);
+    let failure: string | undefined;
+    let paused = false;
 
     try {
-      for (let i = 0; i < pipeline.steps.length; i++) {
-        const step = pipeline.steps[i];
-        this.ui.setCurrentStep(i);
-        this.ui.addActivity(step.agent, `Starting ${step.role} step...`);
-        this.ui.render(run);
+      await this.fireHooks(run, "run", "before");
 
-        if (step.role === "plan") {
-          await this.stepPlan(run, step.agent);
+      for (let i = run.currentStep; i < pipeline.steps.length && !abort.signal.aborted; i++) {
+        const step = pipeline.steps[i];
+        run.currentStep = i;
+        this.events.emit("step:start", { run, step, index: i });
+
+        let output: string | undefined;
+        if (step.role === "plan" && run.source) {
+          run.progress.push(`[plan] Skipped — stories loaded from ${run.source.path}`);
+        } else if (step.role === "plan") {
+          output = await this.stepPlan(run, step.agent);
         } else if (step.loop) {
           await this.stepLoop(run, step);
         } else if (step.role === "compound") {
-          await this.stepCompound(run, step.agent);
+          output = await this.stepCompound(run, step.agent);
         } else {
-          await this.stepSingle(run, step);
+          output = await this.stepSingle(run, step, pipeline);
         }
+        // An interrupted step runs again on resume
+        if (abort.signal.aborted) break;
+        await this.fireHooks(run, "agent-complete", "after", step.agent, output);
+
+        run.currentStep = i + 1;
+        this.history.save(run);
+        this.events.emit("step:end", { run, step, index: i });
 
-        this.ui.addActivity(step.agent, `✅ ${step.role} complete`);
-        this.saveState(run);
-        this.ui.render(run);
+        if (this.pausesAfter(step) && !(await this.review(run, step, i))) {
+          paused = true;
+          break;
+        }
       }
 
-      run.status = "done";
+      const unfinished = run.stories.filter((s) => s.status !== "done");
+      if (abort.signal.aborted || paused) {
+        run.status = "interrupted";
+      } else if (unfinished.length > 0) {
+        // Failed and blocked stories fail the run, even though later steps ran
+        run.status = "failed";
+        failure = `${unfinished.length}/${run.stories.length} stories not done: ${unfinished.map((s) => `${s.id} (${s.status})`).join(", ")}`;
+        this.activity(run, "orchestrator", `❌ ${failure}`);
+      } else {
+        run.status = "done";
+      }
     } catch (err: any) {
-      run.status = "failed";
-      const msg = err.message || String(err);
-      this.ui.addActivity("orchestrator", `❌ ${msg.split("\n")[0]}`);
-      this.ui.render(run);
-      // Also print full error for debugging
-      error(msg);
+      if (abort.signal.aborted) {
+        run.status = "interrupted";
+      } else {
+        run.status = "failed";
+        failure = err.message || String(err);
+        this.activity(run, "orchestrator", `❌ ${failure!.split("\n")[0]}`);
+        // Also print full error for debugging
+        error(failure!);
+      }
     }
 
-    this.saveState(run);
-    this.ui.finish(run);
+    if (run.status === "interrupted") {
+      this.requeueRunning(run);
+      this.activity(run, "orchestrator", `⏸ ${paused ? "Paused" : "Interrupted"} — resume with: kiro-workflow resume ${run.id}`);
+    } else {
+      try {
+        await this.fireHooks(run, "run", "after");
+      } catch (err: any) {
+        run.status = "failed";
+        failure = err.message;
+        this.activity(run, "orchestrator", `❌ ${err.message.split("\n")[0]}`);
+        error(err.message);
+      }
+    }
+
+    run.updatedAt = new Date().toISOString();
+    this.history.save(run);
     await this.runner.cleanup();
+    this.events.emit("run:end", { run, ...(failure ? { error: failure } : {}) });
+    removeSignalHandlers();
+    this.abort = undefined;
+    this.runner.signal = undefined;
     return run;
   }
 
   /**
-   * Planning step — agent breaks task into stories.
+   * While a run is active, the first SIGINT or SIGTERM interrupts it. A second
+   * saves the run as it stands, kills running agents and gates, and exits. Returns a function that removes the handlers.
    */
-  private async stepPlan(run: WorkflowRun, agent: string): Promise<void> {
+  private installSignalHandlers(run: WorkflowRun): () => void {
+    const onSignal = () => {
+      if (!this.abort?.signal.aborted) {
+        this.interrupt();
+        return;
+      }
+      run.status = "interrupted";
+      run.updatedAt = new Date().toISOString();
+      this.requeueRunning(run);
+      this.history.save(run);
+      killProcessGroups();
+      process.exit(EXIT_CODES.aborted);
+    };
+    process.on("SIGINT", onSignal);
+    process.on("SIGTERM", onSignal);
+    return () => {
+      process.off("SIGINT", onSignal);
+      process.off("SIGTERM", onSignal);
+    };
+  }
+
+  /** A story that was mid-flight when the run stopped starts over. */
+  private requeueRunning(run: WorkflowRun) {
+    for (const story of run.stories) {
+      if (story.status === "running") {
+        story.status = "pending";
+        run.iteration = Math.max(0, run.iteration - 1);
+      }
+    }
+  }
+
+  private pausesAfter(step: PipelineStep): boolean {
+    return (this.config.reviewPlan && step.role === "plan")
+      || this.config.pauseAfter.some((name) => name === step.agent || name === step.role);
+  }
+
+  /** A pause named after no step would silently never happen. */
+  private checkPauseSteps(pipeline: WorkflowPipeline) {
+    const unknown = this.config.pauseAfter.filter((name) => !pipeline.steps.some((s) => s.agent === name || s.role === name));
+    if (unknown.length > 0) {
+      const steps = pipeline.steps.map((s) => `${s.agent} (${s.role})`).join(", ");
+      throw new Error(`--pause-after ${unknown.join(", ")} matches no step of ${pipeline.name}. Steps: ${steps}`);
+    }
+  }
+
+  /**
+   * Pause after a step until the reviewer continues or stops the run.
+   * Re-plans and edits are applied and reviewed again. Returns false to stop.
+   */
+  private async review(run: WorkflowRun, step: PipelineStep, index: number): Promise<boolean> {
+    const signal = this.abort!.signal;
+    const canReplan = step.role === "plan" && !run.source;
+    let error: string | undefined;
+
+    for (;;) {
+      this.events.emit("review:start", { run, step, index });
+      if (!this.onReview) {
+        this.activity(run, "orchestrator", `⏸ Paused after ${step.agent} for review`);
+      }
+      const decision: ReviewDecision = this.onReview && !signal.aborted
+        ? await this.onReview({ run, step, index, canReplan, ...(error ? { error } : {}), signal })
+        : { action: "stop" };
+      this.events.emit("review:end", { run, step, index, action: decision.action });
+      error = undefined;
+      if (signal.aborted) return false;
+
+      switch (decision.action) {
+        case "continue":
+          run.progress.push(`[review] ${run.stories.length} stories approved after ${step.agent}`);
+          return true;
+        case "stop":
+          return false;
+        case "replan":
+          if (!canReplan) {
+            error = `Only a plan step can be re-planned, not ${step.agent}`;
+            break;
+          }
+          this.activity(run, step.agent, `↻ Re-planning: ${decision.instructions.split("\n")[0]}`);
+          try {
+            await this.stepPlan(run, step.agent, decision.instructions);
+          } catch (err: any) {
+            // Keep the plan under review rather than failing the run
+            if (signal.aborted) throw err;
+            run.status = "running";
+            error = err.message;
+            break;
+          }
+          run.progress.push(`[review] Re-planned: ${decision.instructions.split("\n")[0]}`);
+          this.history.save(run);
+          break;
+        case "edit":
+          try {
+            this.applyPlan(run, parsePlan(decision.plan, decision.format, this.config.maxRetries));
+          } catch (err: any) {
+            error = err.message;
+            break;
+          }
+          run.progress.push(`[review] Plan edited after ${step.agent}: ${run.stories.length} stories`);
+          this.history.save(run);
+          this.activity(run, "orchestrator", `✎ Plan edited: ${run.stories.length} stories`);
+          this.events.emit("plan:ready", { run, stories: run.stories });
+          break;
+      }
+    }
+  }
+
+  /**
+   * Replace the stories with an edited plan. Stories that keep their id keep
+   * their progress; new ones start pending.
+   */
+  private applyPlan(run: WorkflowRun, stories: Story[]) {
+    const before = new Map(run.stories.map((s) => [s.id, s]));
+    run.stories = stories.map((story) => {
+      const old = before.get(story.id);
+      if (!old) return story;
+      const { title, description, acceptanceCriteria, dependsOn } = story;
+      return { ...old, title, description, acceptanceCriteria, dependsOn };
+    });
+  }
+
+  /**
+   * Planning step — agent breaks task into stories. With `instructions`, a
+   * reviewer sent the current plan back and the agent revises it.
+   */
+  private async stepPlan(run: WorkflowRun, agent: string, instructions?: string): Promise<string> {
     run.status = "planning";
 
+    const revision = instructions ? `
+
+PREVIOUS PLAN (sent back by a reviewer):
+${formatPlan(run.stories, "json")}
+REVIEWER'S INSTRUCTIONS: ${instructions}
+
+Revise the plan to follow the instructions.` : "";
+
     const prompt = `You are planning a development task. Break it into small, independent stories.
 
-TASK: ${run.task}
+TASK: ${run.task}${revision}
 
 Output ONLY a JSON array of stories in this exact format:
 \`\`\`json
@@ -125,7 +464,8 @@ Output ONLY a JSON array of stories in this exact format:
     "id": "short-kebab-id",
     "title": "Brief title",
     "description": "What to implement",
-    "acceptance_criteria": ["Criterion 1", "Criterion 2"]
+    "acceptance_criteria": ["Criterion 1", "Criterion 2"],
+    "depends_on": ["id-of-a-story-that-must-be-done-first"]
   }
 ]
 \`\`\`
@@ -133,28 +473,41 @@ Output ONLY a JSON array of stories in this exact format:
 Rules:
 - Each story should be completable in one agent session
 - Stories should be ordered by dependency (independent first)
+- "depends_on" lists only the stories this one truly needs; use [] when it has none
+- Dependencies must not form a cycle
 - 3-10 stories is ideal
 - Be specific in acceptance criteria`;
 
-    const output = await this.runner.run(agent, prompt);
+    const output = await this.runner.run(agent, prompt, { role: "plan" });
 
     // Parse stories from output
-    const stories = this.parseStories(output);
+    const stories = parseStories(output, this.config.maxRetries);
     run.stories = stories;
     run.status = "running";
+    this.events.emit("plan:ready", { run, stories });
 
     log(`Planned ${stories.length} stories:`);
-    stories.forEach((s) => log(`  - ${s.id}: ${s.title}`));
+    stories.forEach((s) => log(`  - ${s.id}: ${s.title}${s.dependsOn.length ? ` (after ${s.dependsOn.join(", ")})` : ""}`));
+    return output;
   }
 
   /**
    * Loop step — Ralph loop over stories with optional verification.
    */
-  private async stepLoop(run: WorkflowRun, step: { agent: string; verifyEach?: boolean }): Promise<void> {
-    const ralph = new RalphLoop(run, {
+  private async stepLoop(run: WorkflowRun, step: PipelineStep): Promise<void> {
+    const ralph = new RalphLoop(run, step, {
       ...this.config,
       verifyEach: step.verifyEach ?? this.config.verifyEach,
-    }, this.ui);
+    }, {
+      events: this.events,
+      onStoryEnd: (r) => {
+        this.history.save(r);
+        if (r.source) writeSourceStatus(r.source, r.stories);
+      },
+      transcript: this.runner.transcript,
+      hooks: this.hooks,
+      signal: this.abort?.signal,
+    });
 
     const result = await ralph.execute();
 
@@ -166,17 +519,49 @@ Rules:
 
   /**
    * Single step — run one agent, no loop.
+   *
+   * Review and test steps report findings; blocking ones become follow-up
+   * stories that go back through the pipeline's loop step, after which the
+   * step runs again — up to `maxReviewRounds` fix rounds. Returns the
+   * agent's output from every round.
    */
-  private async stepSingle(run: WorkflowRun, step: { agent: string; role: string }): Promise<void> {
-    const prompt = this.buildSinglePrompt(run, step);
-    const output = await this.runner.run(step.agent, prompt);
-    run.progress.push(`[${step.role}] ${step.agent}: completed`);
+  private async stepSingle(run: WorkflowRun, step: PipelineStep, pipeline: WorkflowPipeline): Promise<string> {
+    const loopStep = pipeline.steps.find((s) => s.loop);
+    const outputs: string[] = [];
+
+    for (let round = 1; ; round++) {
+      const prompt = this.buildSinglePrompt(run, step);
+      const output = await this.runner.run(step.agent, prompt, { role: step.role });
+      outputs.push(round > 1 ? `(round ${round})\n${output}` : output);
+      run.progress.push(`[${step.role}] ${step.agent}: completed`);
+
+      if (!FINDING_ROLES.includes(step.role)) return outputs.join("\n\n");
+
+      const findings = parseFindings(output, step.agent);
+      run.findings.push(...findings);
+      const blocking = findings.filter((f) => isBlocking(f, this.config.blockingSeverity));
+      if (blocking.length === 0) return outputs.join("\n\n");
+
+      if (!loopStep || round > this.config.maxReviewRounds) {
+        warn(`${blocking.length} blocking ${step.role} findings left unresolved`);
+        run.progress.push(`[${step.role}] ${blocking.length} blocking findings unresolved after ${round - 1} fix rounds`);
+        return outputs.join("\n\n");
+      }
+
+      const followUps = findingsToStories(blocking, step.role, round, this.config.maxRetries, run.stories.map((s) => s.id));
+      run.stories.push(...followUps);
+      run.progress.push(`[${step.role}] round ${round}: ${blocking.length} blocking findings → follow-up stories`);
+      this.history.save(run);
+      this.activity(run, step.agent, `⚠ ${blocking.length} blocking findings → fix round ${round}`);
+
+      await this.stepLoop(run, loopStep);
+    }
   }
 
   /**
    * Compound step — extract learnings and update steering.
    */
-  private async stepCompound(run: WorkflowRun, agent: string): Promise<void> {
+  private async stepCompound(run: WorkflowRun, agent: string): Promise<string> {
     const prompt = `Review the completed workflow and extract learnings.
 
 TASK: ${run.task}
@@ -195,12 +580,13 @@ Instructions:
 
 Keep learnings concise and actionable.`;
 
-    const output = await this.runner.run(agent, prompt);
+    const output = await this.runner.run(agent, prompt, { role: "compound" });
     run.learnings.push(output);
     run.progress.push(`[compound] Learnings extracted`);
+    return output;
   }
 
-  private buildSinglePrompt(run: WorkflowRun, step: { agent: string; role: string }): string {
+  private buildSinglePrompt(run: WorkflowRun, step: PipelineStep): string {
     const storyList = run.stories.map((s) => `- [${s.status === "done" ? "x" : " "}] ${s.title}`).join("\n");
 
     return `You are running the ${step.role} step of a ${run.workflow} workflow.
@@ -214,97 +600,39 @@ ${storyList}
 PROGRESS:
 ${run.progress.join("\n")}
 
-Do your job as the ${step.agent} agent. Review all changes and provide your output.`;
+Do your job as the ${step.agent} agent. Review all changes and provide your output.${FINDING_ROLES.includes(step.role) ? FINDINGS_FORMAT : ""}`;
   }
 
-  private parseStories(output: string): Story[] {
-    // Strip markdown code fences if present
-    const stripped = output.replace(/```(?:json)?\s*/g, "").replace(/```/g, "");
-
-    // Find the outermost JSON array using bracket balancing
-    const json = this.extractJsonArray(stripped);
-    if (!json) {
-      // Fallback: try greedy regex (last resort)
-      const greedyMatch = stripped.match(/\[[\s\S]*\]/);
-      if (!greedyMatch) {
-        throw new Error(
-          "Planner did not output a valid JSON story array. " +
-          `Output starts with: "${output.slice(0, 200)}..."`
-        );
-      }
-      return this.parseRawStories(greedyMatch[0]);
-    }
-
-    return this.parseRawStories(json);
+  private activity(run: WorkflowRun, agent: string, message: string) {
+    this.events.emit("activity", { run, agent, message });
   }
 
-  private extractJsonArray(text: string): string | null {
-    // Find first '[' and match to its balanced ']'
-    const start = text.indexOf("[");
-    if (start === -1) return null;
-
-    let depth = 0;
-    for (let i = start; i < text.length; i++) {
-      if (text[i] === "[") depth++;
-      else if (text[i] === "]") depth--;
-      if (depth === 0) {
-        return text.slice(start, i + 1);
-      }
-    }
-    return null; // Unbalanced
+  /**
+   * Fire the hooks for a run-level event. A blocking failure fails the run.
+   */
+  private async fireHooks(run: WorkflowRun, event: string, when: HookTiming, agent?: string, output?: string) {
+    const outcome = await this.hooks.fire(event, when, {
+      run,
+      cwd: this.config.projectDir,
+      runner: this.runner,
+      ...(agent ? { agent } : {}),
+      ...(output !== undefined ? { output } : {}),
+    });
+    if (outcome.results.length > 0) this.history.save(run);
+    if (outcome.blocked) throw new Error(outcome.feedback);
   }
 
-  private parseRawStories(jsonStr: string): Story[] {
-    let raw: any[];
-    try {
-      raw = JSON.parse(jsonStr);
-    } catch (e) {
-      // Try fixing common LLM JSON issues: trailing commas
-      const cleaned = jsonStr
-        .replace(/,\s*]/g, "]")
-        .replace(/,\s*}/g, "}");
-      try {
-        raw = JSON.parse(cleaned);
-      } catch {
-        throw new Error(
-          `Failed to parse stories JSON. First 300 chars: "${jsonStr.slice(0, 300)}"`
-        );
-      }
-    }
-
-    if (!Array.isArray(raw) || raw.length === 0) {
-      throw new Error("Planner output parsed but is not a non-empty array");
+  /**
+   * Check out an existing run's branch. Runs never commit to a protected branch.
+   */
+  private checkoutRunBranch(branch: string) {
+    if (isProtectedBranch(branch, this.repo)) {
+      throw new Error(`Run branch ${branch} is protected — kiro-workflow won't commit to it`);
     }
-
-    return raw.map((s: any) => ({
-      id: s.id || s.story_id || `story-${Math.random().toString(36).slice(2, 6)}`,
-      title: s.title || s.name || "Untitled story",
-      description: s.description || "",
-      acceptanceCriteria: s.acceptance_criteria || s.acceptanceCriteria || s.criteria || [],
-      status: "pending" as const,
-      retryCount: 0,
-      maxRetries: this.config.maxRetries,
-    }));
-  }
-
-  private gitCheckout(branch: string) {
     try {
-      execSync(`git checkout -b ${branch}`, {
-        cwd: this.config.projectDir,
-        stdio: "pipe",
-      });
+      execFileSync("git", ["checkout", branch], { cwd: this.config.projectDir, stdio: "pipe" });
     } catch {
-      warn("Could not create branch — continuing on current branch");
-    }
-  }
-
-  private saveState(run: WorkflowRun) {
-    if (!existsSync(this.stateDir)) {
-      mkdirSync(this.stateDir, { recursive: true });
+      throw new Error(`Could not check out branch ${branch}`);
     }
-    writeFileSync(
-      join(this.stateDir, `${run.id}.json`),
-      JSON.stringify(run, null, 2)
-    );
   }
 }
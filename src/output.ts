@@ -0,0 +1,115 @@
+/**
+ * Machine-readable run output for CI: `--output ndjson` prints one JSON
+ * object per line on stdout, and the process exit code says how the run
+ * ended.
+ *
+ *   {"type":"run:start","time":"…","runId":"3f9a2c1b","workflow":"feature-dev",…}
+ *   {"type":"plan:ready","time":"…","stories":[{"id":"model",…}]}
+ *   {"type":"story:failed","time":"…","story":"model","retrying":true,"feedback":"…",…}
+ *   {"type":"run:end","time":"…","exitCode":0,"run":{…}}
+ */
+
+import { Story, VerifyResult, WorkflowRun } from "./types.js";
+import { WorkflowEvents } from "./events.js";
+
+export const EXIT_CODES = {
+  /** Every story and step completed. */
+  done: 0,
+  /** Some stories failed or were blocked, or a later step failed. Also used for usage errors. */
+  failed: 1,
+  /** Planning produced no stories. */
+  planFailed: 2,
+  /** The run was interrupted (Ctrl-C or SIGTERM) or stopped at a review pause, and saved for `resume`. */
+  aborted: 130,
+} as const;
+
+export function exitCodeFor(run: WorkflowRun): number {
+  if (run.status === "done") return EXIT_CODES.done;
+  if (run.status === "interrupted") return EXIT_CODES.aborted;
+  return run.stories.length === 0 ? EXIT_CODES.planFailed : EXIT_CODES.failed;
+}
+
+export class NdjsonReporter {
+  constructor(private write: (line: string) => void = (line) => process.stdout.write(line)) {}
+
+  /**
+   * Print a run's events as they happen. Returns a function that stops listening.
+   */
+  subscribe(events: WorkflowEvents): () => void {
+    const unsubscribe = [
+      events.on("run:start", ({ run, pipeline, resumed }) => this.emit("run:start", {
+        runId: run.id,
+        workflow: run.workflow,
+        task: run.task,
+        branch: run.branch,
+        resumed,
+        steps: pipeline.steps.map((s) => ({ agent: s.agent, role: s.role })),
+      })),
+      events.on("plan:ready", ({ run, stories }) => this.emit("plan:ready", {
+        runId: run.id,
+        ...(run.source ? { source: run.source.path } : {}),
+        stories: stories.map((s) => ({ id: s.id, title: s.title, dependsOn: s.dependsOn, status: s.status })),
+      })),
+      events.on("step:start", ({ run, step, index }) => this.emit("step:start", {
+        runId: run.id, index, agent: step.agent, role: step.role,
+      })),
+      events.on("step:end", ({ run, step, index }) => this.emit("step:end", {
+        runId: run.id, index, agent: step.agent, role: step.role,
+      })),
+      events.on("review:start", ({ run, step, index }) => this.emit("review:start", {
+        runId: run.id, index, agent: step.agent, role: step.role,
+      })),
+      events.on("review:end", ({ run, step, index, action }) => this.emit("review:end", {
+        runId: run.id, index, agent: step.agent, role: step.role, action,
+      })),
+      events.on("story:start", ({ run, story, iteration }) => this.emit("story:start", {
+        runId: run.id, ...storyFields(story), iteration,
+      })),
+      events.on("story:verified", ({ run, story, iteration }) => this.emit("story:verified", {
+        runId: run.id, ...storyFields(story), iteration, gates: gates(story), verdict: verdict(story.verifyResult),
+      })),
+      events.on("story:failed", ({ run, story, iteration, retrying }) => this.emit("story:failed", {
+        runId: run.id,
+        ...storyFields(story),
+        iteration,
+        retrying,
+        feedback: story.verifyFeedback,
+        gates: gates(story),
+        verdict: verdict(story.verifyResult),
+      })),
+      events.on("run:end", ({ run, error }) => this.emit("run:end", {
+        exitCode: exitCodeFor(run),
+        ...(error ? { error } : {}),
+        run,
+      })),
+    ];
+    return () => unsubscribe.forEach((off) => off());
+  }
+
+  /**
+   * End the output of a run that failed before it started (say, the
+   * preflight refused it): a `run:end` line without a `run`.
+   */
+  notStarted(error: string) {
+    this.emit("run:end", { exitCode: EXIT_CODES.failed, error });
+  }
+
+  private emit(type: string, fields: Record<string, unknown>) {
+    this.write(JSON.stringify({ type, time: new Date().toISOString(), ...fields }) + "\n");
+  }
+}
+
+function storyFields(story: Story) {
+  return { story: story.id, title: story.title, status: story.status, retryCount: story.retryCount, maxRetries: story.maxRetries };
+}
+
+/** Quality gate outcomes, without their output (failures are in `feedback`). */
+function gates(story: Story) {
+  return story.gateResults?.map(({ name, command, passed, exit, durationMs }) => ({ name, command, passed, exit, durationMs }));
+}
+
+/** The verifier's parsed verdict, without its raw output. */
+function verdict(result: VerifyResult | undefined) {
+  if (!result) return undefined;
+  return { verdict: result.verdict, criteria: result.criteria, issues: result.issues };
+}
@@ -0,0 +1,137 @@
+/**
+ * Plan parsing — turns planner output into validated, dependency-ordered stories.
+ */
+
+import { PlanFormat, Story } from "./types.js";
+import { sortByDependencies } from "./loop/schedule.js";
+import { warn } from "./utils.js";
+import { parseYaml, stringifyYaml } from "./yaml.js";
+
+export function parseStories(output: string, maxRetries: number): Story[] {
+  // Strip markdown code fences if present
+  const stripped = output.replace(/```(?:json)?\s*/g, "").replace(/```/g, "");
+
+  // Find the outermost JSON array using bracket balancing
+  const json = extractJsonArray(stripped);
+  if (!json) {
+    // Fallback: try greedy regex (last resort)
+    const greedyMatch = stripped.match(/\[[\s\S]*\]/);
+    if (!greedyMatch) {
+      throw new Error(
+        "Planner did not output a valid JSON story array. " +
+        `Output starts with: "${output.slice(0, 200)}..."`
+      );
+    }
+    return parseRawStories(greedyMatch[0], maxRetries);
+  }
+
+  return parseRawStories(json, maxRetries);
+}
+
+export function extractJsonArray(text: string): string | null {
+  // Find first '[' and match to its balanced ']'
+  const start = text.indexOf("[");
+  if (start === -1) return null;
+
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "[") depth++;
+    else if (text[i] === "]") depth--;
+    if (depth === 0) {
+      return text.slice(start, i + 1);
+    }
+  }
+  return null; // Unbalanced
+}
+
+export function parseRawStories(jsonStr: string, maxRetries: number): Story[] {
+  let raw: any[];
+  try {
+    raw = JSON.parse(jsonStr);
+  } catch (e) {
+    // Try fixing common LLM JSON issues: trailing commas
+    const cleaned = jsonStr
+      .replace(/,\s*]/g, "]")
+      .replace(/,\s*}/g, "}");
+    try {
+      raw = JSON.parse(cleaned);
+    } catch {
+      throw new Error(
+        `Failed to parse stories JSON. First 300 chars: "${jsonStr.slice(0, 300)}"`
+      );
+    }
+  }
+
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error("Planner output parsed but is not a non-empty array");
+  }
+
+  const stories: Story[] = raw.map((s: any) => ({
+    id: s.id || s.story_id || `story-${Math.random().toString(36).slice(2, 6)}`,
+    title: s.title || s.name || "Untitled story",
+    description: s.description || "",
+    acceptanceCriteria: s.acceptance_criteria || s.acceptanceCriteria || s.criteria || [],
+    dependsOn: toStringArray(s.depends_on ?? s.dependsOn ?? s.dependencies),
+    status: "pending" as const,
+    retryCount: 0,
+    maxRetries,
+  }));
+
+  // Dependencies, checkpoints and status updates all look stories up by id
+  const ids = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const story of stories) {
+    if (ids.has(story.id)) duplicates.add(story.id);
+    ids.add(story.id);
+  }
+  if (duplicates.size > 0) {
+    throw new Error(`Duplicate story ids: ${[...duplicates].join(", ")}`);
+  }
+
+  // Drop references to stories the planner didn't emit
+  for (const story of stories) {
+    const unknown = story.dependsOn.filter((dep) => !ids.has(dep));
+    if (unknown.length > 0) {
+      warn(`Story ${story.id} depends on unknown stories: ${unknown.join(", ")} — ignoring`);
+      story.dependsOn = story.dependsOn.filter((dep) => ids.has(dep));
+    }
+  }
+
+  // Throws on cycles, so a bad plan fails here rather than mid-loop
+  return sortByDependencies(stories);
+}
+
+/**
+ * Stories in the format the planner writes, for a person to review or edit.
+ * Only what a plan says is included — not progress.
+ */
+export function formatPlan(stories: Story[], format: PlanFormat): string {
+  const raw = stories.map((s) => ({
+    id: s.id,
+    title: s.title,
+    description: s.description,
+    acceptance_criteria: s.acceptanceCriteria,
+    depends_on: s.dependsOn,
+  }));
+  return format === "yaml" ? stringifyYaml(raw) : JSON.stringify(raw, null, 2) + "\n";
+}
+
+/**
+ * Read an edited plan back. Validated like planner output, so a broken edit
+ * throws instead of reaching the loop.
+ */
+export function parsePlan(text: string, format: PlanFormat, maxRetries: number): Story[] {
+  if (format === "json") return parseRawStories(text, maxRetries);
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (e: any) {
+    throw new Error(`Failed to parse stories YAML: ${e.message}`);
+  }
+  return parseRawStories(JSON.stringify(raw), maxRetries);
+}
+
+function toStringArray(value: unknown): string[] {
+  if (typeof value === "string") return value ? [value] : [];
+  return Array.isArray(value) ? value.map(String) : [];
+}
@@ -0,0 +1,228 @@
+/**
+ * Permission policy — decides an agent's file and terminal requests during
+ * unattended runs. Built-in defaults are merged with the project's
+ * `.kiro/workflow-policy.json`.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { isAbsolute, join, relative, resolve, sep } from "path";
+import { ToolKind } from "./types.js";
+
+export interface AgentPolicy {
+  /** Deny every write; only commands matching `allowCommands` may run. */
+  readOnly?: boolean;
+  denyPaths?: string[];
+  denyCommands?: string[];
+  /** Commands allowed despite `readOnly` or a deny pattern. */
+  allowCommands?: string[];
+}
+
+export interface PolicyConfig {
+  /** Path globs no agent may read or write (relative to the project). */
+  denyPaths: string[];
+  /** Command patterns no agent may run; `*` matches anything. */
+  denyCommands: string[];
+  /** Per-agent overrides, added on top of the global rules. */
+  agents: Record<string, AgentPolicy>;
+}
+
+export interface PolicyRequest {
+  agent: string;
+  kind: ToolKind;
+  /** File path (read/write) or command line (execute). */
+  target: string;
+}
+
+export interface PolicyVerdict {
+  allowed: boolean;
+  reason: string;
+}
+
+export const DEFAULT_POLICY: PolicyConfig = {
+  denyPaths: [".env", ".env.*", ".git/**", "**/*.pem", "**/id_rsa*"],
+  denyCommands: ["git push*", "rm -rf /", "rm -rf /*", "rm -rf ~*", "sudo *"],
+  agents: {
+    verifier: {
+      readOnly: true,
+      allowCommands: [
+        "npm test*", "npm run test*", "npm run lint*", "npm run typecheck*", "npx tsc*",
+        "cargo test*", "go test*", "pytest*",
+        "git status*", "git diff*", "git log*", "git show*",
+        "ls", "ls *", "cat *", "grep *",
+      ],
+    },
+  },
+};
+
+const POLICY_FILE = join(".kiro", "workflow-policy.json");
+/**
+ * Shell syntax that runs or chains another command. An allow pattern vouches
+ * for one plain command, so `cat $(rm -rf src)` doesn't pass as `cat *`.
+ */
+const COMMAND_INJECTION = /\$\(|`|;|&&|\|\||\||[<>]\(|\n|(?<![<>])&(?!>)/;
+
+export class PermissionPolicy {
+  private config: PolicyConfig;
+  private projectDir: string;
+
+  constructor(projectDir: string, config: PolicyConfig = DEFAULT_POLICY) {
+    this.projectDir = resolve(projectDir);
+    this.config = config;
+  }
+
+  /**
+   * Load the built-in policy merged with `.kiro/workflow-policy.json`.
+   * Project deny lists extend the defaults; agent entries replace them.
+   */
+  static load(projectDir: string): PermissionPolicy {
+    const path = join(projectDir, POLICY_FILE);
+    if (!existsSync(path)) return new PermissionPolicy(projectDir);
+
+    let raw: any;
+    try {
+      raw = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (e: any) {
+      throw new Error(`Invalid JSON in ${POLICY_FILE}: ${e.message}`);
+    }
+    const project = validatePolicy(raw);
+    return new PermissionPolicy(projectDir, {
+      denyPaths: [...DEFAULT_POLICY.denyPaths, ...project.denyPaths],
+      denyCommands: [...DEFAULT_POLICY.denyCommands, ...project.denyCommands],
+      agents: { ...DEFAULT_POLICY.agents, ...project.agents },
+    });
+  }
+
+  decide(request: PolicyRequest): PolicyVerdict {
+    const agent = this.config.agents[request.agent] ?? {};
+    switch (request.kind) {
+      case "read":
+      case "write":
+        return this.decidePath(request, agent);
+      case "execute":
+        return this.decideCommand(request.target, agent);
+      default:
+        return { allowed: true, reason: "no rule for this tool" };
+    }
+  }
+
+  private decidePath(request: PolicyRequest, agent: AgentPolicy): PolicyVerdict {
+    const full = resolve(this.projectDir, request.target);
+    const rel = relative(this.projectDir, full);
+    if (rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+      return { allowed: false, reason: "outside the project directory" };
+    }
+    if (request.kind === "write" && agent.readOnly) {
+      return { allowed: false, reason: `${request.agent} is read-only` };
+    }
+    const relPath = rel.split(sep).join("/");
+    const pattern = [...this.config.denyPaths, ...(agent.denyPaths ?? [])].find((p) => matchPath(p, relPath));
+    if (pattern) return { allowed: false, reason: `path matches '${pattern}'` };
+    return { allowed: true, reason: "no deny rule matched" };
+  }
+
+  /**
+   * Every part of a compound command (`a && b | c`) must pass on its own.
+   * Commands let through by an allow pattern must be a single plain command.
+   */
+  private decideCommand(command: string, agent: AgentPolicy): PolicyVerdict {
+    const deny = [...this.config.denyCommands, ...(agent.denyCommands ?? [])];
+    const allow = agent.allowCommands ?? [];
+    const injection = command.match(COMMAND_INJECTION);
+
+    for (const part of splitCommand(command)) {
+      const allowedBy = allow.find((p) => matchCommand(p, part));
+      if (allowedBy && injection) {
+        return { allowed: false, reason: `'${injection[0].replace("\n", "newline")}' is not allowed in a command allowed by '${allowedBy}'` };
+      }
+      if (allowedBy) continue;
+      const deniedBy = deny.find((p) => matchCommand(p, part));
+      if (deniedBy) return { allowed: false, reason: `'${part}' matches '${deniedBy}'` };
+      if (agent.readOnly) return { allowed: false, reason: `'${part}' is not allowed for a read-only agent` };
+    }
+    // `cat a > b` passes the allow list but writes a file
+    if (agent.readOnly && />(?!&)/.test(command)) {
+      return { allowed: false, reason: "output redirection is not allowed for a read-only agent" };
+    }
+    return { allowed: true, reason: "no deny rule matched" };
+  }
+}
+
+/**
+ * Check a raw policy file and fill in missing lists.
+ */
+export function validatePolicy(raw: any): PolicyConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`${POLICY_FILE}: must be a JSON object`);
+  }
+  const policy: PolicyConfig = {
+    denyPaths: stringList(raw.denyPaths, "denyPaths"),
+    denyCommands: stringList(raw.denyCommands, "denyCommands"),
+    agents: {},
+  };
+
+  if (raw.agents !== undefined && (typeof raw.agents !== "object" || Array.isArray(raw.agents))) {
+    throw new Error(`${POLICY_FILE}: agents must be an object keyed by agent name`);
+  }
+  for (const [name, entry] of Object.entries<any>(raw.agents ?? {})) {
+    if (entry?.readOnly !== undefined && typeof entry.readOnly !== "boolean") {
+      throw new Error(`${POLICY_FILE}: agents.${name}.readOnly must be a boolean`);
+    }
+    policy.agents[name] = {
+      readOnly: entry?.readOnly,
+      denyPaths: stringList(entry?.denyPaths, `agents.${name}.denyPaths`),
+      denyCommands: stringList(entry?.denyCommands, `agents.${name}.denyCommands`),
+      allowCommands: stringList(entry?.allowCommands, `agents.${name}.allowCommands`),
+    };
+  }
+  return policy;
+}
+
+function stringList(value: any, field: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new Error(`${POLICY_FILE}: ${field} must be an array of strings`);
+  }
+  return value;
+}
+
+/**
+ * gitignore-style glob: `**` crosses directories, `*` and `?` don't, and a
+ * pattern without a slash matches the file name at any depth.
+ */
+export function matchPath(pattern: string, path: string): boolean {
+  const anchored = pattern.includes("/") ? pattern.replace(/^\//, "") : `**/${pattern}`;
+  let source = "";
+  for (let i = 0; i < anchored.length; i++) {
+    const c = anchored[i];
+    if (c === "*" && anchored[i + 1] === "*") {
+      // `**/` matches zero or more directories
+      source += anchored[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += anchored[i + 2] === "/" ? 2 : 1;
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`).test(path);
+}
+
+/** Command pattern: `*` matches anything, whitespace runs are equal. */
+export function matchCommand(pattern: string, command: string): boolean {
+  const source = normalize(pattern)
+    .split("*")
+    .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(normalize(command));
+}
+
+/** Split on `;`, `&&`, `||`, `|`, newlines and a background `&` — not on redirects like `2>&1` or `&>`. */
+function splitCommand(command: string): string[] {
+  return command.split(/&&|\|\||[;|\n]|(?<![<>])&(?!>)/).map(normalize).filter(Boolean);
+}
+
+function normalize(s: string): string {
+  return s.trim().replace(/\s+/g, " ");
+}
@@ -0,0 +1,26 @@
+/**
+ * Process groups of running agents and gate commands. They are spawned
+ * detached, so a Ctrl-C in the terminal never reaches them — when the second
+ * Ctrl-C exits at once, it kills them here first instead of leaving orphans.
+ */
+
+const groups = new Set<number>();
+
+/** Track a detached child's process group. Returns a function to call once it exits. */
+export function trackProcessGroup(pid: number | undefined): () => void {
+  if (pid === undefined) return () => {};
+  groups.add(pid);
+  return () => groups.delete(pid);
+}
+
+/** SIGKILL every tracked process group. Synchronous, so it can run right before `process.exit`. */
+export function killProcessGroups() {
+  for (const pid of groups) {
+    try {
+      process.kill(-pid, "SIGKILL");
+    } catch {
+      // Already gone
+    }
+  }
+  groups.clear();
+}
@@ -0,0 +1,262 @@
+/**
+ * Repository safety — what a run may do to the project's git repository.
+ *
+ * Before a run touches git, the preflight refuses a dirty working tree
+ * (unless `--allow-dirty`) and a run branch that is protected. Story commits
+ * are made without a shell, never on a protected branch, and leave out files
+ * that look like secrets or match the project's deny rules.
+ *
+ * Settings come from `.kiro/workflow-git.json`; every field is optional:
+ *
+ *   {
+ *     "baseBranch": "develop",
+ *     "branchTemplate": "kiro/{workflow}/{date}-{task}",
+ *     "protectedBranches": ["main", "release/*"],
+ *     "deny": ["*.sqlite", "!fixtures/*.sqlite"]
+ *   }
+ */
+
+import { execFileSync } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { join, relative } from "path";
+import { RunConfig, StorySource } from "./types.js";
+import { matchPath } from "./policy.js";
+
+export interface RepoSettings {
+  /** Branch new run branches start from (default: the current HEAD). */
+  baseBranch?: string;
+  /** Run branch name; see `branchName()` for the placeholders. */
+  branchTemplate: string;
+  /** Branches nothing is ever committed to; `*` matches anything. */
+  protectedBranches: string[];
+  /** gitignore-style rules for files story commits leave out; `!` re-includes. */
+  deny: string[];
+}
+
+export const SECRET_PATTERNS = [
+  ".env", ".env.*", "!.env.example", "!.env.sample", "!.env.template",
+  "*.pem", "*.key", "*.p12", "*.pfx", "*.keystore", "*.jks",
+  "id_rsa*", "id_dsa*", "id_ecdsa*", "id_ed25519*",
+  ".npmrc", ".pypirc", ".netrc", ".aws/credentials", "credentials.json", "secrets.*",
+];
+
+export const DEFAULT_REPO_SETTINGS: RepoSettings = {
+  branchTemplate: "workflow/{workflow}/{timestamp}",
+  protectedBranches: ["main", "master"],
+  deny: SECRET_PATTERNS,
+};
+
+const SETTINGS_FILE = join(".kiro", "workflow-git.json");
+/** Run state and transcripts — never part of a story, never make the tree dirty. */
+const STATE_DIR = ".kiro/.workflows/";
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync("git", args, { cwd, stdio: "pipe", encoding: "utf-8" });
+}
+
+/** First line of a failed git command's stderr. */
+function gitError(err: any): string {
+  return String(err.stderr || err.message).trim().split("\n")[0];
+}
+
+/**
+ * Settings for a project: defaults, then `.kiro/workflow-git.json`, then
+ * `baseBranch` and `branchTemplate` from the run config (the CLI flags).
+ * Project deny rules are added to the built-in secret patterns.
+ */
+export function loadRepoSettings(projectDir: string, config: Partial<RunConfig> = {}): RepoSettings {
+  const settings: RepoSettings = { ...DEFAULT_REPO_SETTINGS };
+  const path = join(projectDir, SETTINGS_FILE);
+  if (existsSync(path)) {
+    let raw: any;
+    try {
+      raw = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (e: any) {
+      throw new Error(`Invalid JSON in ${SETTINGS_FILE}: ${e.message}`);
+    }
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error(`${SETTINGS_FILE} must be an object`);
+    }
+    if (raw.baseBranch !== undefined) settings.baseBranch = stringField(raw.baseBranch, "baseBranch");
+    if (raw.branchTemplate !== undefined) settings.branchTemplate = stringField(raw.branchTemplate, "branchTemplate");
+    if (raw.protectedBranches !== undefined) settings.protectedBranches = stringList(raw.protectedBranches, "protectedBranches");
+    if (raw.deny !== undefined) settings.deny = [...SECRET_PATTERNS, ...stringList(raw.deny, "deny")];
+  }
+  if (config.baseBranch) settings.baseBranch = config.baseBranch;
+  if (config.branchTemplate) settings.branchTemplate = config.branchTemplate;
+  return settings;
+}
+
+function stringField(value: any, field: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${SETTINGS_FILE}: ${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+function stringList(value: any, field: string): string[] {
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new Error(`${SETTINGS_FILE}: ${field} must be an array of strings`);
+  }
+  return value;
+}
+
+/**
+ * Fill in a branch template. Placeholders: `{workflow}`, `{id}` (run id),
+ * `{timestamp}` (ms since epoch), `{date}` (YYYY-MM-DD) and `{task}` (the
+ * task as a short slug).
+ */
+export function branchName(
+  template: string,
+  vars: { workflow: string; id: string; task: string; now?: Date },
+): string {
+  const now = vars.now ?? new Date();
+  const values: Record<string, string> = {
+    workflow: vars.workflow,
+    id: vars.id,
+    timestamp: String(now.getTime()),
+    date: now.toISOString().slice(0, 10),
+    task: slug(vars.task) || vars.id,
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key) => {
+    if (!(key in values)) throw new Error(`Unknown placeholder ${match} in branch template "${template}"`);
+    return values[key];
+  });
+}
+
+function slug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, 40)
+    .replace(/^-+|-+$/g, "");
+}
+
+export function isProtectedBranch(branch: string, settings: RepoSettings): boolean {
+  // A leading slash anchors the glob, so `main` doesn't match `feature/main`
+  return settings.protectedBranches.some((p) => matchPath(`/${p}`, branch));
+}
+
+/**
+ * Whether story commits leave a file out: the last matching rule wins, and a
+ * rule also matches every file under a matching directory.
+ */
+export function isDenied(path: string, patterns: string[]): boolean {
+  const parts = path.split("/");
+  const candidates = parts.map((_, i) => parts.slice(0, i + 1).join("/"));
+  let denied = false;
+  for (const rule of patterns) {
+    const negated = rule.startsWith("!");
+    const pattern = (negated ? rule.slice(1) : rule).replace(/\/$/, "");
+    if (candidates.some((c) => matchPath(pattern, c))) denied = !negated;
+  }
+  return denied;
+}
+
+export function currentBranch(cwd: string): string {
+  return git(cwd, ["rev-parse", "--abbrev-ref", "HEAD"]).trim();
+}
+
+/**
+ * Uncommitted changes, as `git status --short` lines. Run state and the
+ * run's own plan file don't count.
+ */
+export function dirtyFiles(cwd: string, source?: StorySource): string[] {
+  const own = source ? relative(cwd, source.path) : undefined;
+  const fields = git(cwd, ["status", "--porcelain", "-z", "--untracked-files=all"]).split("\0");
+  const lines: string[] = [];
+  for (let i = 0; i < fields.length; i++) {
+    const entry = fields[i];
+    if (!entry) continue;
+    // Renames and copies are followed by the original path
+    if (entry[0] === "R" || entry[0] === "C") i++;
+    const path = entry.slice(3);
+    if (path.startsWith(STATE_DIR)) continue;
+    if (own && (path === own || path.startsWith(`${own}/`))) continue;
+    lines.push(entry);
+  }
+  return lines;
+}
+
+/**
+ * Check a repository is safe to start a run in. Throws with every problem found.
+ */
+export function preflight(
+  cwd: string,
+  settings: RepoSettings,
+  opts: { branch: string; allowDirty: boolean; source?: StorySource },
+): void {
+  try {
+    git(cwd, ["rev-parse", "--verify", "HEAD"]);
+  } catch {
+    throw new Error(`${cwd} is not a git repository with at least one commit — kiro-workflow commits each story`);
+  }
+
+  const problems: string[] = [];
+  if (isProtectedBranch(opts.branch, settings)) {
+    problems.push(`Run branch ${opts.branch} is protected — change branchTemplate in ${SETTINGS_FILE} or --branch`);
+  }
+  if (settings.baseBranch) {
+    try {
+      git(cwd, ["rev-parse", "--verify", `${settings.baseBranch}^{commit}`]);
+    } catch {
+      problems.push(`Base branch ${settings.baseBranch} does not exist`);
+    }
+  }
+  if (!opts.allowDirty) {
+    const dirty = dirtyFiles(cwd, opts.source);
+    if (dirty.length > 0) {
+      const shown = dirty.slice(0, 10).map((l) => `    ${l}`).join("\n");
+      const more = dirty.length > 10 ? `\n    … and ${dirty.length - 10} more` : "";
+      problems.push(`Working tree has uncommitted changes that the first story commit would sweep up:\n${shown}${more}\n  Commit or stash them, or pass --allow-dirty`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Refusing to start the run:\n  ${problems.join("\n  ")}`);
+  }
+}
+
+/**
+ * Create the run branch (from the base branch, if set) and check it out.
+ */
+export function createRunBranch(cwd: string, branch: string, settings: RepoSettings) {
+  try {
+    git(cwd, ["check-ref-format", "--branch", branch]);
+  } catch {
+    throw new Error(`Invalid branch name: ${branch}`);
+  }
+  try {
+    git(cwd, ["checkout", "-b", branch, ...(settings.baseBranch ? [settings.baseBranch] : [])]);
+  } catch (err) {
+    throw new Error(`Could not create branch ${branch}: ${gitError(err)}`);
+  }
+}
+
+/** Throws when the branch checked out in `cwd` is protected. */
+export function assertCommitAllowed(cwd: string, settings: RepoSettings) {
+  const branch = currentBranch(cwd);
+  if (isProtectedBranch(branch, settings)) {
+    throw new Error(`Refusing to commit on protected branch ${branch}`);
+  }
+}
+
+/**
+ * Stage every change except run state, `exclude`d paths and denied files,
+ * then commit. No shell is involved, so the message is passed through as is.
+ * Returns the files left out by deny rules.
+ */
+export function commitChanges(cwd: string, message: string, settings: RepoSettings, exclude: string[] = []): { skipped: string[] } {
+  assertCommitAllowed(cwd, settings);
+  try {
+    git(cwd, ["add", "-A", "--", ".", ...[STATE_DIR, ...exclude].map((path) => `:(exclude)${path}`)]);
+    const staged = git(cwd, ["diff", "--cached", "--name-only", "--no-renames", "-z"]).split("\0").filter(Boolean);
+    const skipped = staged.filter((f) => isDenied(f, settings.deny));
+    if (skipped.length > 0) {
+      git(cwd, ["restore", "--staged", "--", ...skipped.map((f) => `:(literal)${f}`)]);
+    }
+    git(cwd, ["commit", "--allow-empty", "-m", message]);
+    return { skipped };
+  } catch (err) {
+    throw new Error(`git commit failed: ${gitError(err)}`);
+  }
+}
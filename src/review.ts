@@ -0,0 +1,146 @@
+/**
+ * Terminal review — what `--review-plan` and `--pause-after` show while a run
+ * waits: the stories, then a prompt to continue, re-plan with instructions,
+ * edit the plan as JSON or YAML in $EDITOR, or stop.
+ *
+ *   const reviewer = new TerminalReviewer();
+ *   orchestrator.onReview = (review) => reviewer.review(review);
+ */
+
+import { spawnSync } from "child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createInterface } from "readline";
+import { formatPlan } from "./plan.js";
+import { PlanFormat, ReviewDecision, StepReview } from "./types.js";
+
+export interface TerminalReviewerOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  /** Editor command; the file path is appended (default: $VISUAL, $EDITOR, vi). */
+  editor?: string;
+}
+
+export class TerminalReviewer {
+  /** The last edit — reopened after it was rejected, so fixing it doesn't start over. */
+  private draft?: { plan: string; format: PlanFormat };
+
+  constructor(private opts: TerminalReviewerOptions = {}) {}
+
+  /**
+   * Show the stories and ask what to do. Ctrl-C, end of input or the run
+   * being interrupted count as `stop`.
+   */
+  async review(review: StepReview): Promise<ReviewDecision> {
+    const input = this.opts.input ?? process.stdin;
+    const output = this.opts.output ?? process.stderr;
+    const print = (line = "") => output.write(`${line}\n`);
+
+    print();
+    print(`⏸ Paused after ${review.step.agent} (${review.step.role}) — ${review.run.stories.length} stories:`);
+    review.run.stories.forEach((story, i) => {
+      const after = story.dependsOn.length > 0 ? `  (after ${story.dependsOn.join(", ")})` : "";
+      const status = story.status === "pending" ? "" : `  [${story.status}]`;
+      print(`  ${i + 1}. ${story.id} — ${story.title}${after}${status}`);
+      for (const criterion of story.acceptanceCriteria) print(`       - ${criterion}`);
+    });
+    if (review.error) {
+      print();
+      print(`✗ ${review.error}`);
+    } else {
+      this.draft = undefined;
+    }
+
+    const choices = [
+      "[c]ontinue",
+      ...(review.canReplan ? ["[r]e-plan"] : []),
+      "[e]dit as JSON",
+      "edit as [y]AML",
+      "[s]top",
+    ];
+    const ask = prompter(input, output, review.signal);
+    try {
+      for (;;) {
+        const answer = await ask(`\n${choices.join("  ")} > `);
+        switch (answer?.toLowerCase()) {
+          case undefined:
+          case "s":
+            return { action: "stop" };
+          case "c":
+            return { action: "continue" };
+          case "r": {
+            if (!review.canReplan) break;
+            const instructions = await ask("Instructions for the planner: ");
+            if (instructions === undefined) return { action: "stop" };
+            if (instructions) return { action: "replan", instructions };
+            print("No instructions — nothing to re-plan.");
+            continue;
+          }
+          case "e":
+          case "y": {
+            const decision = this.edit(review, answer === "y" ? "yaml" : "json", print);
+            if (decision) return decision;
+            continue;
+          }
+        }
+        print(`Choose one of: ${choices.join("  ")}`);
+      }
+    } finally {
+      ask.close();
+    }
+  }
+
+  /** Open the plan in the editor. Returns undefined when nothing was changed. */
+  private edit(review: StepReview, format: PlanFormat, print: (line?: string) => void): ReviewDecision | undefined {
+    const original = formatPlan(review.run.stories, format);
+    const start = this.draft?.format === format ? this.draft.plan : original;
+    const dir = mkdtempSync(join(tmpdir(), "kiro-plan-"));
+    const file = join(dir, `plan-${review.run.id}.${format}`);
+    try {
+      writeFileSync(file, start);
+      const editor = this.opts.editor ?? (process.env.VISUAL || process.env.EDITOR || "vi");
+      // The editor setting may carry arguments ("code --wait"); the path is passed separately
+      const result = spawnSync("/bin/sh", ["-c", `${editor} "$1"`, "sh", file], { stdio: "inherit" });
+      if (result.status !== 0) {
+        const detail = result.error?.message ?? (result.signal ? `killed by ${result.signal}` : `exit code ${result.status}`);
+        print(`Editor failed (${detail}) — plan unchanged.`);
+        return undefined;
+      }
+      const plan = readFileSync(file, "utf-8");
+      if (plan === original) {
+        print("No changes.");
+        return undefined;
+      }
+      this.draft = { plan, format };
+      return { action: "edit", plan, format };
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Ask questions on one readline interface. An answer is undefined once the
+ * user presses Ctrl-C, input ends or `signal` aborts.
+ */
+function prompter(input: NodeJS.ReadableStream, output: NodeJS.WritableStream, signal: AbortSignal) {
+  const rl = createInterface({ input, output, terminal: (input as any).isTTY === true });
+  let cancel!: () => void;
+  const cancelled = new Promise<undefined>((resolve) => {
+    cancel = () => resolve(undefined);
+  });
+  rl.on("SIGINT", cancel);
+  rl.on("close", cancel);
+  signal.addEventListener("abort", cancel);
+
+  const ask = (query: string): Promise<string | undefined> => {
+    if (signal.aborted) return Promise.resolve(undefined);
+    return Promise.race([new Promise<string>((resolve) => rl.question(query, (a) => resolve(a.trim()))), cancelled]);
+  };
+  ask.close = () => {
+    signal.removeEventListener("abort", cancel);
+    rl.close();
+  };
+  return ask;
+}
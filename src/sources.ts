@@ -0,0 +1,258 @@
+/**
+ * Story sources — start a run from an existing plan instead of the planner:
+ * a `prd.json` (as used by ralph.sh) or a Kiro spec (`.kiro/specs/<name>/`).
+ * Story status is written back to the source as stories complete, so the
+ * bash and TypeScript runners can share one plan.
+ */
+
+import { existsSync, readFileSync, statSync, writeFileSync } from "fs";
+import { basename, join, relative } from "path";
+import { Story, StorySource } from "./types.js";
+import { parseRawStories } from "./plan.js";
+import { sortByDependencies } from "./loop/schedule.js";
+import { warn } from "./utils.js";
+
+export interface LoadedSource {
+  /** Plan title — used as the run's task when none is given. */
+  title: string;
+  stories: Story[];
+}
+
+/**
+ * Read stories from a source. Stories already marked complete come back `done`.
+ */
+export function loadSource(source: StorySource, maxRetries: number): LoadedSource {
+  if (!existsSync(source.path)) {
+    throw new Error(`${source.kind === "prd" ? "PRD file" : "Spec"} not found: ${source.path}`);
+  }
+  return source.kind === "prd"
+    ? parsePrd(readFileSync(source.path, "utf-8"), maxRetries, basename(source.path))
+    : loadSpec(source.path, maxRetries);
+}
+
+/**
+ * Mark completed stories in the source file. Stories the source doesn't
+ * know about (e.g. review follow-ups) are left out.
+ */
+export function writeSourceStatus(source: StorySource, stories: Story[]) {
+  const done = new Set(stories.filter((s) => s.status === "done").map((s) => s.id));
+  try {
+    if (source.kind === "prd") {
+      const prd = JSON.parse(readFileSync(source.path, "utf-8"));
+      let changed = false;
+      for (const story of prd.stories ?? []) {
+        if (done.has(story.id) && story.passes !== true) {
+          story.passes = true;
+          changed = true;
+        }
+      }
+      if (changed) writeFileSync(source.path, JSON.stringify(prd, null, 2) + "\n");
+    } else {
+      const path = tasksFile(source.path);
+      const markdown = readFileSync(path, "utf-8");
+      const updated = checkTasks(markdown, done);
+      if (updated !== markdown) writeFileSync(path, updated);
+    }
+  } catch (err: any) {
+    // The run's own state is the source of truth; a stale plan file isn't fatal
+    warn(`Could not update ${source.path}: ${err.message}`);
+  }
+}
+
+/**
+ * `prd.json`: `{ title, stories: [{ id, title, description, acceptance_criteria, passes }] }`.
+ */
+export function parsePrd(json: string, maxRetries: number, name = "prd.json"): LoadedSource {
+  let prd: any;
+  try {
+    prd = JSON.parse(json);
+  } catch (e: any) {
+    throw new Error(`Invalid JSON in ${name}: ${e.message}`);
+  }
+  if (!Array.isArray(prd?.stories) || prd.stories.length === 0) {
+    throw new Error(`${name} has no stories`);
+  }
+
+  const stories = parseRawStories(JSON.stringify(prd.stories), maxRetries);
+  const passed = new Set(prd.stories.filter((s: any) => s.passes === true).map((s: any) => s.id));
+  for (const story of stories) {
+    if (passed.has(story.id)) story.status = "done";
+  }
+  return { title: prd.title || name, stories };
+}
+
+interface TaskItem {
+  id: string;
+  line: number;
+  indent: number;
+  title: string;
+  checked: boolean;
+  details: string[];
+  dependsOn: string[];
+  parent?: TaskItem;
+  children: TaskItem[];
+}
+
+const CHECKBOX = /^(\s*)[-*] \[( |x|X)\]\s+(.*)$/;
+const TASK_NUMBER = /^(?:task\s+)?(\d+(?:\.\d+)*)[.:)]?\s+/i;
+const DEPENDENCIES = /^(?:\*\*|_)*(?:dependencies|depends on|requires)(?:\*\*|_)*\s*:?\s*(?:\*\*|_)*\s*(.*?)_?$/i;
+
+/**
+ * Kiro spec directory: stories come from the `- [ ]` checkboxes in
+ * `tasks.md`. Tasks with sub-task checkboxes are grouped; their leaves
+ * become the stories.
+ */
+function loadSpec(dir: string, maxRetries: number): LoadedSource {
+  const path = tasksFile(dir);
+  const name = basename(dir);
+  const docs = ["requirements.md", "design.md"].filter((f) => existsSync(join(dir, f)));
+  const specRef = docs.length > 0
+    ? `Spec: ${relative(process.cwd(), dir) || "."}/ (${docs.join(", ")})`
+    : "";
+
+  const markdown = readFileSync(path, "utf-8");
+  return {
+    title: readTitle(markdown) ?? name,
+    stories: parseTasks(markdown, maxRetries, specRef),
+  };
+}
+
+export function parseTasks(markdown: string, maxRetries: number, specRef = ""): Story[] {
+  const items = parseTaskItems(markdown);
+  if (items.length === 0) {
+    throw new Error("tasks.md has no checkbox tasks (expected lines like '- [ ] 1. Set up the project')");
+  }
+
+  const byId = new Map(items.map((t) => [t.id, t]));
+  const leaves = items.filter((t) => t.children.length === 0);
+  // A dependency on a group means all of its leaves
+  const expand = (id: string): string[] => {
+    const item = byId.get(id);
+    if (!item) return [];
+    return item.children.length === 0 ? [item.id] : item.children.flatMap((c) => expand(c.id));
+  };
+
+  const stories: Story[] = leaves.map((task) => {
+    const inherited = ancestors(task).flatMap((a) => a.dependsOn);
+    const dependsOn = [...new Set([...task.dependsOn, ...inherited].flatMap((dep) => {
+      const resolved = expand(dep);
+      if (resolved.length === 0) warn(`Task ${task.id} depends on unknown task ${dep} — ignoring`);
+      return resolved;
+    }))].filter((dep) => dep !== task.id);
+
+    const parents = ancestors(task).map((a) => a.title).reverse();
+    const description = [
+      parents.length > 0 ? `Part of: ${parents.join(" › ")}` : "",
+      ...task.details.map((d) => `- ${d}`),
+      specRef,
+    ].filter(Boolean).join("\n");
+
+    // `_Requirements: 1.1_` lines point at requirements.md — context, not criteria
+    const criteria = task.details.filter((d) => !/^_?requirements?:/i.test(d));
+
+    return {
+      id: task.id,
+      title: task.title,
+      description: description || task.title,
+      acceptanceCriteria: criteria.length > 0 ? criteria : [task.title],
+      dependsOn,
+      status: task.checked ? "done" as const : "pending" as const,
+      retryCount: 0,
+      maxRetries,
+    };
+  });
+
+  return sortByDependencies(stories);
+}
+
+/**
+ * Tick the checkboxes of done tasks, and of groups whose sub-tasks are all done.
+ */
+export function checkTasks(markdown: string, done: Set<string>): string {
+  const lines = markdown.split("\n");
+  const isDone = (task: TaskItem): boolean =>
+    task.children.length === 0 ? done.has(task.id) || task.checked : task.children.every(isDone);
+
+  for (const task of parseTaskItems(markdown)) {
+    if (!task.checked && isDone(task)) {
+      lines[task.line] = lines[task.line].replace(/\[ \]/, "[x]");
+    }
+  }
+  return lines.join("\n");
+}
+
+function parseTaskItems(markdown: string): TaskItem[] {
+  const items: TaskItem[] = [];
+  const stack: TaskItem[] = [];
+  let current: TaskItem | undefined;
+
+  markdown.split("\n").forEach((line, index) => {
+    const box = line.match(CHECKBOX);
+    if (box) {
+      const indent = box[1].length;
+      const text = box[3].trim();
+      const number = text.match(TASK_NUMBER);
+      const id = `task-${number ? number[1].replace(/\./g, "-") : items.length + 1}`;
+
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+      // "2.1" belongs to "2" even when it isn't indented
+      const numberedParent = number?.[1].includes(".")
+        ? items.find((t) => t.id === `task-${number[1].split(".").slice(0, -1).join("-")}`)
+        : undefined;
+      const parent = stack[stack.length - 1] ?? numberedParent;
+
+      current = {
+        id,
+        line: index,
+        indent,
+        title: (number ? text.slice(number[0].length) : text).trim(),
+        checked: box[2] !== " ",
+        details: [],
+        dependsOn: [],
+        parent,
+        children: [],
+      };
+      parent?.children.push(current);
+      items.push(current);
+      stack.push(current);
+      return;
+    }
+
+    if (!current || !line.trim()) return;
+    // A heading or unindented text ends the current task
+    if (!/^\s/.test(line)) {
+      current = undefined;
+      stack.length = 0;
+      return;
+    }
+
+    const detail = line.trim().replace(/^[-*]\s+/, "");
+    const deps = detail.match(DEPENDENCIES);
+    if (deps) {
+      if (!/^none\b/i.test(deps[1].trim())) {
+        current.dependsOn.push(...(deps[1].match(/\d+(?:\.\d+)*/g) ?? []).map((n) => `task-${n.replace(/\./g, "-")}`));
+      }
+    } else {
+      current.details.push(detail);
+    }
+  });
+
+  return items;
+}
+
+function ancestors(task: TaskItem): TaskItem[] {
+  const result: TaskItem[] = [];
+  for (let p = task.parent; p; p = p.parent) result.push(p);
+  return result;
+}
+
+function tasksFile(dir: string): string {
+  const path = statSync(dir).isDirectory() ? join(dir, "tasks.md") : dir;
+  if (!existsSync(path)) throw new Error(`No tasks.md in ${dir}`);
+  return path;
+}
+
+function readTitle(markdown: string): string | undefined {
+  const heading = markdown.match(/^#\s+(.+)$/m)?.[1].trim();
+  return heading?.replace(/^(?:tasks|implementation plan)\s*:?\s*/i, "") || undefined;
+}
@@ -0,0 +1,81 @@
+/**
+ * Agent transcripts — every agent call in a run, persisted for auditing.
+ *
+ * Layout: `.kiro/.workflows/<run-id>/<seq>-<agent>.json`, one file per call,
+ * next to the run's `<run-id>.json` state file.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { AgentEvent } from "./types.js";
+
+export interface TranscriptEntry {
+  seq: number;
+  runId: string;
+  agent: string;
+  role?: string;
+  story?: string;
+  prompt: string;
+  output: string;
+  startedAt: string;
+  durationMs: number;
+  status: "ok" | "error";
+  error?: string;
+  /** Live activity during the call, with consecutive message chunks merged. */
+  events?: AgentEvent[];
+}
+
+/** What an agent call is for — recorded alongside the transcript. */
+export interface AgentCallContext {
+  role?: string;
+  story?: string;
+}
+
+export class TranscriptLog {
+  private dir: string;
+  private runId: string;
+  private seq: number;
+
+  constructor(stateDir: string, runId: string) {
+    this.dir = join(stateDir, runId);
+    this.runId = runId;
+    // Resumed runs keep numbering after the calls already on disk
+    this.seq = existsSync(this.dir) ? listFiles(this.dir).length : 0;
+  }
+
+  record(entry: Omit<TranscriptEntry, "seq" | "runId">): TranscriptEntry {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+    const full: TranscriptEntry = { seq: ++this.seq, runId: this.runId, ...entry };
+    const name = `${String(full.seq).padStart(4, "0")}-${entry.agent}.json`;
+    writeFileSync(join(this.dir, name), JSON.stringify(full, null, 2));
+    return full;
+  }
+
+  /**
+   * Read a run's transcript in call order, optionally filtered by story or agent.
+   */
+  static read(stateDir: string, runId: string, filter: { story?: string; agent?: string } = {}): TranscriptEntry[] {
+    const dir = join(stateDir, runId);
+    if (!existsSync(dir)) return [];
+
+    const entries: TranscriptEntry[] = [];
+    for (const file of listFiles(dir)) {
+      try {
+        entries.push(JSON.parse(readFileSync(join(dir, file), "utf-8")));
+      } catch {
+        // skip corrupt files
+      }
+    }
+
+    return entries
+      .filter((e) => !filter.story || e.story === filter.story)
+      .filter((e) => !filter.agent || e.agent === filter.agent)
+      .sort((a, b) => a.seq - b.seq);
+  }
+}
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir).filter((f) => /^\d+-.+\.json$/.test(f));
+}
@@ -1,33 +1,176 @@
-export type StoryStatus = "pending" | "running" | "done" | "failed";
+import type { AgentBackend, AgentBackendKind } from "./backends/types.js";
+
+export type StoryStatus = "pending" | "running" | "done" | "failed" | "blocked";
 
 export interface Story {
   id: string;
   title: string;
   description: string;
   acceptanceCriteria: string[];
+  /** Ids of stories that must be done before this one can start. */
+  dependsOn: string[];
   status: StoryStatus;
   output?: string;
   retryCount: number;
   maxRetries: number;
   verifyFeedback?: string;
+  /** Structured verdict from the most recent verification. */
+  verifyResult?: VerifyResult;
+  /** Quality gate results from the most recent attempt. */
+  gateResults?: GateResult[];
+  /** HEAD before the latest attempt (serial runs) or before the story's merge (parallel runs). */
+  checkpoint?: string;
+  /** Tip of the story's commits on the run branch, once done. `rollback` reverts `checkpoint..commit`. */
+  commit?: string;
+}
+
+/**
+ * What happens to a failed attempt's changes: `reset` discards them, `stash`
+ * keeps them in `git stash`, `keep` leaves them for the next attempt.
+ */
+export const ON_FAIL_POLICIES = ["reset", "keep", "stash"] as const;
+export type OnFailPolicy = typeof ON_FAIL_POLICIES[number];
+
+export const GATE_NAMES = ["build", "typecheck", "lint", "test"] as const;
+export type GateName = typeof GATE_NAMES[number];
+
+export interface GateResult {
+  name: GateName;
+  command: string;
+  passed: boolean;
+  /** "exited with code 1", "timed out after 600s", … */
+  exit: string;
+  durationMs: number;
+  /** Combined stdout and stderr, trimmed. */
+  output: string;
 }
 
+export interface CriterionResult {
+  criterion: string;
+  passed: boolean;
+  evidence: string;
+}
+
+export interface VerifyResult {
+  /** `unclear` when the verifier's output matched no protocol or contradicted itself. */
+  verdict: "pass" | "fail" | "unclear";
+  criteria: CriterionResult[];
+  issues: string[];
+  raw: string;
+}
+
+export type Severity = "info" | "low" | "medium" | "high" | "critical";
+
+/** An issue reported by a review or test step. */
+export interface Finding {
+  severity: Severity;
+  file?: string;
+  line?: number;
+  description: string;
+  /** Agent that reported it. */
+  source: string;
+}
+
+export type ToolCallStatus = "pending" | "in_progress" | "completed" | "failed";
+
+export interface PlanEntry {
+  content: string;
+  status: "pending" | "in_progress" | "completed";
+  priority?: "high" | "medium" | "low";
+}
+
+/**
+ * Live activity from an agent call — streamed by backends that support it
+ * (ACP), shown in the terminal UI and kept in the transcript.
+ */
+export type AgentEvent =
+  | { type: "message"; text: string }
+  | { type: "thought"; text: string }
+  | { type: "tool_call"; id: string; title: string; kind?: string; status: ToolCallStatus; input?: unknown }
+  | { type: "tool_call_update"; id: string; title?: string; status?: ToolCallStatus; output?: string }
+  | { type: "plan"; entries: PlanEntry[] };
+
+/** What an agent asked to do, as the permission policy sees it. */
+export type ToolKind = "read" | "write" | "execute" | "other";
+
+/** One permission policy decision, kept in run state for auditing. */
+export interface PermissionDecision {
+  at: string;
+  agent: string;
+  story?: string;
+  kind: ToolKind;
+  /** File path or command line. */
+  target: string;
+  allowed: boolean;
+  reason: string;
+}
+
+/** Where a run's stories came from when it skipped planning (`--prd` / `--spec`). */
+export interface StorySource {
+  kind: "prd" | "spec";
+  /** Absolute path to the prd.json file or the spec directory. */
+  path: string;
+}
+
+export type HookTiming = "before" | "after";
+
+export interface HookStepResult {
+  action: string;
+  status: "passed" | "failed" | "skipped";
+  /** Tail of the script or agent output. */
+  output?: string;
+}
+
+/** One firing of a lifecycle hook. */
+export interface HookResult {
+  hook: string;
+  event: string;
+  when: HookTiming;
+  story?: string;
+  at: string;
+  durationMs: number;
+  status: "passed" | "failed";
+  /** A `fail_on_error` step failed, so the hooked operation failed too. */
+  blocking: boolean;
+  steps: HookStepResult[];
+}
+
+/**
+ * `interrupted`: stopped by Ctrl-C or SIGTERM, or at a review pause;
+ * `kiro-workflow resume` picks it up.
+ */
+export const RUN_STATUSES = ["planning", "running", "verifying", "done", "failed", "interrupted"] as const;
+export type RunStatus = typeof RUN_STATUSES[number];
+
 export interface WorkflowRun {
   id: string;
   workflow: WorkflowType;
   task: string;
-  status: "planning" | "running" | "verifying" | "done" | "failed";
+  status: RunStatus;
   stories: Story[];
   branch: string;
   progress: string[];
   learnings: string[];
+  /** Findings from review and test steps, across all rounds. */
+  findings: Finding[];
+  /** Permission policy decisions for agent tool calls (ACP backend only). */
+  permissions: PermissionDecision[];
+  /** Set when stories were loaded from a plan file; its status is kept in sync. */
+  source?: StorySource;
+  /** Results of every `.kiro/hooks/` hook that fired during the run. */
+  hooks: HookResult[];
   createdAt: string;
   updatedAt: string;
   iteration: number;
   maxIterations: number;
+  /** Index of the pipeline step to run next — lets `resume` skip completed steps. */
+  currentStep: number;
 }
 
-export type WorkflowType = "feature-dev" | "bug-fix" | "security-audit";
+export type BuiltinWorkflowType = "feature-dev" | "bug-fix" | "security-audit";
+
+/** Built-in workflow names, plus any defined in `.kiro/workflows/*.json`. */
+export type WorkflowType = BuiltinWorkflowType | (string & {});
 
 export interface WorkflowPipeline {
   name: WorkflowType;
@@ -35,11 +178,21 @@ export interface WorkflowPipeline {
   steps: PipelineStep[];
 }
 
+export const PIPELINE_ROLES = [
+  "plan", "implement", "verify", "test", "review", "triage", "investigate", "scan", "fix", "compound",
+] as const;
+
+export type PipelineRole = typeof PIPELINE_ROLES[number];
+
 export interface PipelineStep {
   agent: string;
-  role: "plan" | "implement" | "verify" | "test" | "review" | "triage" | "investigate" | "scan" | "fix" | "compound";
+  role: PipelineRole;
   loop?: boolean;
   verifyEach?: boolean;
+  /** Agent that verifies each story in a loop step (default: "verifier"). */
+  verifier?: string;
+  /** Conventional-commit type for story commits (default follows the role: feat, fix). */
+  commitType?: string;
 }
 
 export interface AgentConfig {
@@ -51,13 +204,73 @@ export interface AgentConfig {
   resources: string[];
 }
 
+/**
+ * A run paused after a pipeline step (`reviewPlan`, `pauseAfter`) for a
+ * person to check the stories before it goes on.
+ */
+export interface StepReview {
+  run: WorkflowRun;
+  step: PipelineStep;
+  index: number;
+  /** Whether the step can be run again with instructions (plan steps). */
+  canReplan: boolean;
+  /** Why the last edit or re-plan was rejected; the stories are unchanged. */
+  error?: string;
+  /** Aborted when the run is interrupted while waiting. */
+  signal: AbortSignal;
+}
+
+/**
+ * `continue` goes on with the stories as they are, `replan` runs the plan
+ * step again with extra instructions, `edit` replaces the stories with an
+ * edited plan in the planner's format, and `stop` saves the run for `resume`.
+ */
+export type ReviewDecision =
+  | { action: "continue" }
+  | { action: "replan"; instructions: string }
+  | { action: "edit"; plan: string; format: PlanFormat }
+  | { action: "stop" };
+
+/** How a plan is written out for a person to edit. */
+export type PlanFormat = "json" | "yaml";
+
 export interface RunConfig {
   maxIterations: number;
   maxRetries: number;
   verifyEach: boolean;
   useAcp: boolean;
+  /** Backend for agent calls; defaults to "acp" when `useAcp` is set, else "cli". */
+  backend?: AgentBackendKind | AgentBackend;
+  /** Fixture directory for the scripted backend (default: .kiro/fixtures). */
+  fixturesDir?: string;
+  /** Timeout for one agent call, in milliseconds. */
+  agentTimeoutMs: number;
+  /** Per-agent overrides of `agentTimeoutMs`, keyed by agent name. */
+  agentTimeouts?: Record<string, number>;
   verbose: boolean;
   projectDir: string;
+  /** Stories run at once, each in its own git worktree (1 = serial in projectDir). */
+  parallel: number;
+  /** Fix rounds a review or test step may trigger before the pipeline moves on. */
+  maxReviewRounds: number;
+  /** Findings at or above this severity become follow-up stories. */
+  blockingSeverity: Severity;
+  /** Run quality gates (build, typecheck, lint, test) before verifying each story. */
+  gates: boolean;
+  /** Timeout for one quality gate command, in milliseconds. */
+  gateTimeoutMs: number;
+  /** Restores the tree to the story's checkpoint after a failed attempt (serial runs). */
+  onFail: OnFailPolicy;
+  /** Start a run even when the working tree has uncommitted changes. */
+  allowDirty: boolean;
+  /** Branch new run branches start from; overrides `.kiro/workflow-git.json`. */
+  baseBranch?: string;
+  /** Run branch name template; overrides `.kiro/workflow-git.json`. */
+  branchTemplate?: string;
+  /** Pause after planning for the stories to be approved, re-planned or edited. */
+  reviewPlan: boolean;
+  /** Also pause after these steps, named by agent or role (e.g. "review"). */
+  pauseAfter: string[];
 }
 
 export const DEFAULT_CONFIG: RunConfig = {
@@ -65,6 +278,16 @@ export const DEFAULT_CONFIG: RunConfig = {
   maxRetries: 3,
   verifyEach: true,
   useAcp: false,
+  agentTimeoutMs: 300_000, // 5 min per agent call
   verbose: false,
   projectDir: process.cwd(),
+  parallel: 1,
+  maxReviewRounds: 2,
+  blockingSeverity: "high",
+  gates: true,
+  gateTimeoutMs: 600_000, // 10 min per gate
+  onFail: "reset",
+  allowDirty: false,
+  reviewPlan: false,
+  pauseAfter: [],
 };
@@ -10,6 +10,8 @@
  *   │  ✅ US-001 Set up project structure
  *   │  ✅ US-002 Add user model
  *   │  ⏳ US-003 Implement OAuth2 flow          ← iteration 2/3
+ *   │       ⚙ execute_bash: npm test              plan 2/4
+ *   │       ↳ Tests pass, now wiring the callback route…
  *   │  ⬚ US-004 Add token refresh
  *   │  ⬚ US-005 Protected routes
  *   │  ⬚ US-006 Error handling
@@ -21,10 +23,13 @@
  *   │  12:01:05  developer  ✅ US-002 committed
  *   └─ 4m 22s elapsed
  *
- * Uses ANSI escape codes to redraw in place (no scroll spam).
+ * Uses ANSI escape codes to redraw in place (no scroll spam). Driven by a
+ * run's events — see `subscribe()`.
  */
 
-import { WorkflowRun, Story } from "./types.js";
+import { AgentEvent, WorkflowRun, Story, ToolCallStatus } from "./types.js";
+import { WorkflowEvents } from "./events.js";
+import { formatElapsed } from "./utils.js";
 
 // ANSI
 const ESC = "\x1b";
@@ -48,6 +53,18 @@ interface ActivityEntry {
   message: string;
 }
 
+/** What one agent call is doing right now (ACP events). */
+interface LiveActivity {
+  agent: string;
+  tool?: { id: string; label: string; status: ToolCallStatus };
+  plan?: { done: number; total: number };
+  /** Tail of the agent's message so far. */
+  message: string;
+}
+
+/** Characters of agent message kept for the live panel. */
+const MESSAGE_TAIL = 500;
+
 export class TerminalUI {
   private lastLineCount = 0;
   private activities: ActivityEntry[] = [];
@@ -58,6 +75,11 @@ export class TerminalUI {
   private enabled: boolean;
   private refreshTimer?: ReturnType<typeof setInterval>;
   private lastRun?: WorkflowRun;
+  private liveOutput?: { agent: string; line: string };
+  /** Live activity keyed by story id, or `@agent` for calls outside a story. */
+  private live = new Map<string, LiveActivity>();
+  /** No drawing while a review prompt has the terminal. */
+  private suspended = false;
 
   constructor(opts: { enabled?: boolean } = {}) {
     this.startTime = Date.now();
@@ -75,18 +97,78 @@ export class TerminalUI {
         if (this.refreshTimer) clearInterval(this.refreshTimer);
         process.stderr.write(SHOW_CURSOR);
       };
+      // Signals are the orchestrator's; a force-quit still ends here
       process.on("exit", cleanup);
-      process.on("SIGINT", () => { cleanup(); process.exit(130); });
-      process.on("SIGTERM", () => { cleanup(); process.exit(143); });
     }
   }
 
+  /**
+   * Follow a run through its events. Returns a function that stops listening.
+   */
+  subscribe(events: WorkflowEvents): () => void {
+    const unsubscribe = [
+      events.on("run:start", ({ run, pipeline, resumed }) => {
+        this.setPipeline(pipeline.steps.map((s) => s.agent));
+        this.addActivity("orchestrator", resumed ? `Resuming ${run.workflow} at step ${run.currentStep + 1}` : `Starting ${run.workflow}`);
+        this.render(run);
+      }),
+      events.on("step:start", ({ run, step, index }) => {
+        this.setCurrentStep(index);
+        this.addActivity(step.agent, `Starting ${step.role} step...`);
+        this.render(run);
+      }),
+      events.on("step:end", ({ run, step }) => {
+        this.addActivity(step.agent, `✅ ${step.role} complete`);
+        this.render(run);
+      }),
+      events.on("review:start", ({ run, step }) => {
+        this.addActivity(step.agent, "⏸ Waiting for review");
+        this.render(run);
+        this.suspended = true;
+        if (this.enabled) process.stderr.write(SHOW_CURSOR);
+      }),
+      events.on("review:end", ({ run }) => {
+        this.suspended = false;
+        // Start a fresh display below the prompt instead of drawing over it
+        this.lastLineCount = 0;
+        if (this.enabled) process.stderr.write(HIDE_CURSOR);
+        this.render(run);
+      }),
+      events.on("story:start", ({ run, story }) => {
+        this.addActivity("ralph", `Story: ${story.id} — ${story.title}`);
+        this.render(run);
+      }),
+      events.on("story:verified", ({ run, story }) => {
+        this.addActivity("ralph", `✅ ${story.id} done`);
+        this.render(run);
+      }),
+      events.on("story:failed", ({ run, story, retrying }) => {
+        this.addActivity("ralph", retrying
+          ? `↩ ${story.id} retry ${story.retryCount}/${story.maxRetries}`
+          : `❌ ${story.id} failed after ${story.maxRetries} retries`);
+        this.render(run);
+      }),
+      events.on("agent:output", ({ agent, line }) => this.agentOutput(agent, line)),
+      events.on("agent:event", ({ agent, event, story }) => this.agentEvent(agent, event, story)),
+      events.on("activity", ({ run, agent, message }) => {
+        this.addActivity(agent, message);
+        this.render(run);
+      }),
+      events.on("run:end", ({ run }) => this.finish(run)),
+    ];
+    return () => unsubscribe.forEach((off) => off());
+  }
+
   setPipeline(steps: string[]) {
     this.pipelineSteps = steps;
   }
 
   setCurrentStep(stepIndex: number) {
     this.currentStepIndex = stepIndex;
+    // Step-level calls (plan, review, …) are over once the step changes
+    for (const key of this.live.keys()) {
+      if (key.startsWith("@")) this.live.delete(key);
+    }
   }
 
   addActivity(agent: string, message: string) {
@@ -98,8 +180,49 @@ export class TerminalUI {
     }
   }
 
+  /**
+   * Latest line of agent output, shown under the activity log. Not rendered
+   * immediately — the refresh timer picks it up, so chatty agents don't flicker.
+   */
+  agentOutput(agent: string, line: string) {
+    if (line.trim()) {
+      this.liveOutput = { agent, line: line.trim() };
+    }
+  }
+
+  /**
+   * Live event from an agent call, shown under its running story (or under
+   * the activity log for calls outside a story). Picked up by the refresh timer.
+   */
+  agentEvent(agent: string, event: AgentEvent, story?: string) {
+    const key = story ?? `@${agent}`;
+    let live = this.live.get(key);
+    if (!live || live.agent !== agent) {
+      live = { agent, message: "" };
+      this.live.set(key, live);
+    }
+
+    switch (event.type) {
+      case "message":
+        live.message = (live.message + event.text).slice(-MESSAGE_TAIL);
+        break;
+      case "tool_call":
+        live.tool = { id: event.id, label: toolLabel(event.title, event.kind, event.input), status: event.status };
+        break;
+      case "tool_call_update":
+        if (live.tool?.id === event.id) {
+          if (event.title) live.tool.label = event.title;
+          if (event.status) live.tool.status = event.status;
+        }
+        break;
+      case "plan":
+        live.plan = { done: event.entries.filter(e => e.status === "completed").length, total: event.entries.length };
+        break;
+    }
+  }
+
   render(run: WorkflowRun) {
-    if (!this.enabled) return;
+    if (!this.enabled || this.suspended) return;
     this.lastRun = run;
 
     const lines: string[] = [];
@@ -125,7 +248,9 @@ export class TerminalUI {
       const barWidth = 20;
       const filled = Math.round((done / total) * barWidth);
       const bar = `${GREEN}${"█".repeat(filled)}${GRAY}${"░".repeat(barWidth - filled)}${NC}`;
-      lines.push(`${GRAY}├─${NC} Stories ${BOLD}[${done}/${total}]${NC} ${bar} ${pct}%`);
+      const running = run.stories.filter(s => s.status === "running").length;
+      const runningInfo = running > 1 ? `  ${CYAN}${running} running${NC}` : "";
+      lines.push(`${GRAY}├─${NC} Stories ${BOLD}[${done}/${total}]${NC} ${bar} ${pct}%${runningInfo}`);
     } else {
       lines.push(`${GRAY}├─${NC} Stories ${DIM}(planning...)${NC}`);
     }
@@ -141,9 +266,19 @@ export class TerminalUI {
         suffix = `  ${CYAN}← iteration ${run.iteration}${NC}${retryInfo}`;
       } else if (story.status === "failed") {
         suffix = `  ${RED}failed${NC}`;
+      } else if (story.status === "blocked") {
+        const blockers = (story.dependsOn ?? []).filter(id => run.stories.some(s => s.id === id && s.status !== "done"));
+        suffix = `  ${YELLOW}blocked by ${blockers.join(", ")}${NC}`;
       }
 
       lines.push(`${GRAY}│${NC}  ${icon} ${story.status === "running" ? BOLD : story.status === "done" ? "" : DIM}${label}${NC}${suffix}`);
+
+      const live = this.live.get(story.id);
+      if (live && story.status === "running") {
+        lines.push(...liveLines(live, "     "));
+      } else if (live) {
+        this.live.delete(story.id);
+      }
     }
 
     // Activity log
@@ -156,6 +291,16 @@ export class TerminalUI {
       }
     }
 
+    // Live activity of calls outside a story
+    for (const [key, live] of this.live) {
+      if (key.startsWith("@")) lines.push(...liveLines(live, "", true));
+    }
+
+    // Live agent output
+    if (this.liveOutput) {
+      lines.push(`${GRAY}│${NC}  ${DIM}↳ ${this.liveOutput.agent}: ${truncate(this.liveOutput.line, 70)}${NC}`);
+    }
+
     // Footer — elapsed time
     const elapsed = formatElapsed(Date.now() - this.startTime);
     lines.push(`${GRAY}└─${NC} ${DIM}${elapsed} elapsed${NC}`);
@@ -182,6 +327,8 @@ export class TerminalUI {
    */
   finish(run: WorkflowRun) {
     if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.liveOutput = undefined;
+    this.live.clear();
     if (this.enabled) {
       process.stderr.write(SHOW_CURSOR);
     }
@@ -189,13 +336,17 @@ export class TerminalUI {
 
     const done = run.stories.filter(s => s.status === "done").length;
     const failed = run.stories.filter(s => s.status === "failed").length;
+    const blocked = run.stories.filter(s => s.status === "blocked").length;
     const elapsed = formatElapsed(Date.now() - this.startTime);
 
     console.error("");
     if (run.status === "done") {
       console.error(`${GREEN}${BOLD}✅ Complete!${NC} ${done} stories in ${elapsed}. Branch: ${run.branch}`);
+    } else if (run.status === "interrupted") {
+      console.error(`${YELLOW}${BOLD}⏸ Interrupted.${NC} ${done}/${run.stories.length} stories done in ${elapsed}. Resume: kiro-workflow resume ${run.id}`);
     } else {
-      console.error(`${RED}${BOLD}❌ Failed.${NC} ${done} done, ${failed} failed in ${elapsed}. Branch: ${run.branch}`);
+      const blockedInfo = blocked > 0 ? `, ${blocked} blocked` : "";
+      console.error(`${RED}${BOLD}❌ Failed.${NC} ${done} done, ${failed} failed${blockedInfo} in ${elapsed}. Branch: ${run.branch}`);
     }
   }
 }
@@ -211,21 +362,43 @@ function storyIcon(story: Story): string {
       return `${CYAN}${frame}${NC}`;
     }
     case "failed": return `${RED}❌${NC}`;
+    case "blocked": return `${YELLOW}⊘${NC}`;
     default: return `${GRAY}⬚${NC}`;
   }
 }
 
-function truncate(s: string, max: number): string {
-  return s.length > max ? s.slice(0, max - 1) + "…" : s;
+/**
+ * Sub-panel lines for one agent call: current tool call (and plan progress),
+ * then the last line of its message.
+ */
+function liveLines(live: LiveActivity, indent: string, showAgent = false): string[] {
+  const lines: string[] = [];
+  const who = showAgent ? `${BLUE}${live.agent}${NC} ` : "";
+  const plan = live.plan ? `  ${GRAY}plan ${live.plan.done}/${live.plan.total}${NC}` : "";
+
+  if (live.tool) {
+    const icon = live.tool.status === "completed" ? `${GREEN}✓${NC}` : live.tool.status === "failed" ? `${RED}✗${NC}` : `${YELLOW}⚙${NC}`;
+    lines.push(`${GRAY}│${NC}  ${indent}${icon} ${who}${truncate(live.tool.label, 60)}${plan}`);
+  } else if (plan || who) {
+    lines.push(`${GRAY}│${NC}  ${indent}${YELLOW}⚙${NC} ${who}${DIM}thinking…${NC}${plan}`);
+  }
+
+  const lastLine = live.message.split("\n").map(l => l.trim()).filter(Boolean).pop();
+  if (lastLine) {
+    lines.push(`${GRAY}│${NC}  ${indent}${DIM}↳ ${truncate(lastLine, 70)}${NC}`);
+  }
+  return lines;
 }
 
-function formatElapsed(ms: number): string {
-  const secs = Math.floor(ms / 1000);
-  if (secs < 60) return `${secs}s`;
-  const mins = Math.floor(secs / 60);
-  const remSecs = secs % 60;
-  if (mins < 60) return `${mins}m ${remSecs}s`;
-  const hrs = Math.floor(mins / 60);
-  const remMins = mins % 60;
-  return `${hrs}h ${remMins}m`;
+/** "execute_bash: npm test" — the title, plus the command when the title lacks it. */
+function toolLabel(title: string, kind: string | undefined, input: unknown): string {
+  const command = (input as any)?.command;
+  if (typeof command === "string" && !title.includes(command)) {
+    return `${title}: ${command}`;
+  }
+  return title || kind || "tool";
+}
+
+function truncate(s: string, max: number): string {
+  return s.length > max ? s.slice(0, max - 1) + "…" : s;
 }
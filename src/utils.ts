@@ -19,3 +19,15 @@ export function warn(msg: string) {
 export function error(msg: string) {
   console.error(`${RED}[kiro-workflow]${NC} ${msg}`);
 }
+
+/** A duration as "42s", "3m 5s" or "1h 12m". */
+export function formatElapsed(ms: number): string {
+  const secs = Math.floor(ms / 1000);
+  if (secs < 60) return `${secs}s`;
+  const mins = Math.floor(secs / 60);
+  const remSecs = secs % 60;
+  if (mins < 60) return `${mins}m ${remSecs}s`;
+  const hrs = Math.floor(mins / 60);
+  const remMins = mins % 60;
+  return `${hrs}h ${remMins}m`;
+}
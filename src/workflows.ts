@@ -1,6 +1,8 @@
-import { WorkflowPipeline, WorkflowType } from "./types.js";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { basename, join } from "path";
+import { BuiltinWorkflowType, PIPELINE_ROLES, PipelineStep, WorkflowPipeline } from "./types.js";
 
-export const WORKFLOWS: Record<WorkflowType, WorkflowPipeline> = {
+export const WORKFLOWS: Record<BuiltinWorkflowType, WorkflowPipeline> = {
   "feature-dev": {
     name: "feature-dev",
     description: "Plan, implement, verify, test, and review a new feature",
@@ -29,10 +31,104 @@ export const WORKFLOWS: Record<WorkflowType, WorkflowPipeline> = {
     steps: [
       { agent: "scanner", role: "scan" },
       { agent: "triager", role: "triage" },
-      { agent: "fixer", role: "fix", loop: true, verifyEach: true },
+      { agent: "fixer", role: "fix", loop: true, verifyEach: true, commitType: "security" },
       { agent: "tester", role: "test" },
       { agent: "reviewer", role: "review" },
       { agent: "compound", role: "compound" },
     ],
   },
 };
+
+/**
+ * Load the workflows available in a project: the built-ins merged with any
+ * pipelines declared in `.kiro/workflows/*.json`. A project workflow with the
+ * same name as a built-in replaces it.
+ *
+ * Throws if a definition is malformed or references an agent that is not
+ * present in `.kiro/agents/`.
+ */
+export function loadWorkflows(projectDir: string): Record<string, WorkflowPipeline> {
+  const workflows: Record<string, WorkflowPipeline> = { ...WORKFLOWS };
+  const workflowsDir = join(projectDir, ".kiro", "workflows");
+  if (!existsSync(workflowsDir)) return workflows;
+
+  const agents = listAgents(projectDir);
+  const files = readdirSync(workflowsDir).filter((f) => f.endsWith(".json")).sort();
+
+  for (const file of files) {
+    const path = join(workflowsDir, file);
+    let raw: any;
+    try {
+      raw = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (e: any) {
+      throw new Error(`Invalid JSON in .kiro/workflows/${file}: ${e.message}`);
+    }
+
+    const pipeline = validateWorkflow(raw, agents, basename(file, ".json"));
+    workflows[pipeline.name] = pipeline;
+  }
+
+  return workflows;
+}
+
+/**
+ * Check a raw workflow definition and return it as a typed pipeline.
+ * `fallbackName` is used when the definition has no `name` field.
+ */
+export function validateWorkflow(raw: any, agents: string[], fallbackName: string): WorkflowPipeline {
+  const name = raw?.name ?? fallbackName;
+  const where = `workflow '${name}'`;
+
+  if (typeof name !== "string" || !/^[a-z0-9][a-z0-9-]*$/.test(name)) {
+    throw new Error(`${where}: name must be lowercase kebab-case`);
+  }
+  if (typeof raw.description !== "string" || raw.description.trim() === "") {
+    throw new Error(`${where}: description is required`);
+  }
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    throw new Error(`${where}: steps must be a non-empty array`);
+  }
+
+  const steps: PipelineStep[] = raw.steps.map((step: any, i: number) => {
+    const at = `${where} step ${i + 1}`;
+    if (typeof step?.agent !== "string" || step.agent === "") {
+      throw new Error(`${at}: agent is required`);
+    }
+    if (!agents.includes(step.agent)) {
+      throw new Error(`${at}: agent '${step.agent}' not found in .kiro/agents/`);
+    }
+    if (!PIPELINE_ROLES.includes(step.role)) {
+      throw new Error(`${at}: role must be one of ${PIPELINE_ROLES.join(", ")}`);
+    }
+    for (const flag of ["loop", "verifyEach"]) {
+      if (step[flag] !== undefined && typeof step[flag] !== "boolean") {
+        throw new Error(`${at}: ${flag} must be a boolean`);
+      }
+    }
+    if (step.verifier !== undefined && !agents.includes(step.verifier)) {
+      throw new Error(`${at}: verifier '${step.verifier}' not found in .kiro/agents/`);
+    }
+    if (step.commitType !== undefined && !/^[a-z]+$/.test(step.commitType)) {
+      throw new Error(`${at}: commitType must be a lowercase word like "feat" or "fix"`);
+    }
+
+    return {
+      agent: step.agent,
+      role: step.role,
+      ...(step.loop !== undefined && { loop: step.loop }),
+      ...(step.verifyEach !== undefined && { verifyEach: step.verifyEach }),
+      ...(step.verifier !== undefined && { verifier: step.verifier }),
+      ...(step.commitType !== undefined && { commitType: step.commitType }),
+    };
+  });
+
+  return { name, description: raw.description, steps };
+}
+
+function listAgents(projectDir: string): string[] {
+  const agentsDir = join(projectDir, ".kiro", "agents");
+  if (!existsSync(agentsDir)) return [];
+  return readdirSync(agentsDir)
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => basename(f, ".json"));
+}
@@ -0,0 +1,228 @@
+/**
+ * Minimal YAML reader for the config blocks in `.kiro/` markdown files:
+ * block mappings and sequences, `|` / `>` block scalars, flow lists of
+ * scalars, quoted strings and `#` comments. Anchors, tags and multi-document
+ * streams are not supported.
+ *
+ * `stringifyYaml` writes the same subset, so its output reads back unchanged.
+ */
+
+interface Line {
+  indent: number;
+  text: string;
+  /** 1-based line number, for error messages. */
+  no: number;
+}
+
+export function parseYaml(source: string): any {
+  const lines: Line[] = source.split("\n").map((raw, i) => ({
+    indent: raw.length - raw.trimStart().length,
+    text: raw.trimEnd().trimStart(),
+    no: i + 1,
+  }));
+  const parser = new YamlParser(lines);
+  const value = parser.block(0);
+  parser.expectEnd();
+  return value ?? null;
+}
+
+class YamlParser {
+  private pos = 0;
+
+  constructor(private lines: Line[]) {}
+
+  /** Parse the mapping, sequence or scalar starting at the next content line. */
+  block(minIndent: number): any {
+    const line = this.peek();
+    if (!line || line.indent < minIndent) return null;
+    if (line.text === "-" || line.text.startsWith("- ")) return this.sequence(line.indent);
+    if (keyValue(line.text)) return this.mapping(line.indent);
+    this.pos++;
+    return scalar(stripComment(line.text));
+  }
+
+  expectEnd() {
+    const line = this.peek();
+    if (line) throw new Error(`YAML line ${line.no}: unexpected content '${line.text}'`);
+  }
+
+  private sequence(indent: number): any[] {
+    const items: any[] = [];
+    for (let line = this.peek(); line && line.indent === indent && (line.text === "-" || line.text.startsWith("- ")); line = this.peek()) {
+      const rest = line.text.slice(1).trimStart();
+      if (!rest) {
+        this.pos++;
+        items.push(this.block(indent + 1));
+      } else if (keyValue(rest)) {
+        // "- key: value" opens a mapping indented to where `key` starts
+        const column = indent + (line.text.length - rest.length);
+        this.lines[this.pos] = { ...line, indent: column, text: rest };
+        items.push(this.mapping(column));
+      } else {
+        this.pos++;
+        items.push(scalar(stripComment(rest)));
+      }
+    }
+    return items;
+  }
+
+  private mapping(indent: number): Record<string, any> {
+    const map: Record<string, any> = {};
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      const kv = keyValue(line.text);
+      if (!kv) throw new Error(`YAML line ${line.no}: expected 'key: value', got '${line.text}'`);
+      this.pos++;
+
+      const value = stripComment(kv.value);
+      if (/^[|>][-+]?$/.test(value)) {
+        map[kv.key] = this.blockScalar(indent, value);
+      } else if (value) {
+        map[kv.key] = scalar(value);
+      } else {
+        // Nested block — sequences may sit at the same indent as their key
+        const next = this.peek();
+        const nestedSeq = next && next.indent === indent && (next.text === "-" || next.text.startsWith("- "));
+        map[kv.key] = nestedSeq ? this.sequence(indent) : this.block(indent + 1);
+      }
+    }
+    return map;
+  }
+
+  /** `|` keeps newlines, `>` folds them; `-` strips the final newline. */
+  private blockScalar(parentIndent: number, header: string): string {
+    const raw: Line[] = [];
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.text && line.indent <= parentIndent) break;
+      raw.push(line);
+      this.pos++;
+    }
+    while (raw.length > 0 && !raw[raw.length - 1].text) raw.pop();
+
+    const indent = Math.min(...raw.filter((l) => l.text).map((l) => l.indent));
+    const texts = raw.map((l) => (l.text ? " ".repeat(l.indent - indent) + l.text : ""));
+    const body = header.startsWith(">")
+      ? texts.join("\n").replace(/([^\n])\n(?=[^\n])/g, "$1 ")
+      : texts.join("\n");
+    return header.endsWith("-") || !body ? body : body + "\n";
+  }
+
+  /** Next line with content, skipping blanks and comment lines. */
+  private peek(): Line | undefined {
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.text && !line.text.startsWith("#")) return line;
+      this.pos++;
+    }
+    return undefined;
+  }
+}
+
+function keyValue(text: string): { key: string; value: string } | undefined {
+  const m = text.match(/^("[^"]*"|'[^']*'|[^\s"'#][^:#]*?)\s*:(?:\s+(.*))?$/);
+  if (!m) return undefined;
+  return { key: String(scalar(m[1])), value: m[2] ?? "" };
+}
+
+/** Drop a trailing ` # comment` that isn't inside quotes. */
+function stripComment(text: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === quote) quote = undefined;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text;
+}
+
+function scalar(text: string): any {
+  if (text.startsWith('"') && text.endsWith('"') && text.length >= 2) return JSON.parse(text);
+  if (text.startsWith("'") && text.endsWith("'") && text.length >= 2) return text.slice(1, -1).replace(/''/g, "'");
+  if (text.startsWith("[") && text.endsWith("]")) {
+    const inner = text.slice(1, -1).trim();
+    return inner ? inner.split(",").map((s) => scalar(s.trim())) : [];
+  }
+  if (text === "{}") return {};
+  if (text === "true") return true;
+  if (text === "false") return false;
+  if (text === "null" || text === "~" || text === "") return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+/**
+ * Write JSON-like data as block YAML that `parseYaml` reads back as the same
+ * value. Multi-line strings become `|` block scalars where that's lossless;
+ * anything else that could be misread is double-quoted.
+ */
+export function stringifyYaml(value: any): string {
+  return blockLines(value, 0).join("\n") + "\n";
+}
+
+function blockLines(value: any, indent: number): string[] {
+  const pad = " ".repeat(indent);
+  if (Array.isArray(value) && value.length > 0) {
+    return value.flatMap((item) => {
+      if (Array.isArray(item) && item.length > 0) return [`${pad}-`, ...blockLines(item, indent + 2)];
+      if (isMapping(item)) {
+        // The first key goes on the dash line: "- key: value"
+        const [first, ...rest] = blockLines(item, indent + 2);
+        return [`${pad}- ${first.trimStart()}`, ...rest];
+      }
+      return [`${pad}- ${inlineScalar(item)}`];
+    });
+  }
+  if (isMapping(value)) {
+    return Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .flatMap(([key, v]) => {
+        const head = `${pad}${plainSafe(key) && !/[:#]/.test(key) ? key : JSON.stringify(key)}:`;
+        if ((Array.isArray(v) && v.length > 0) || isMapping(v)) return [head, ...blockLines(v, indent + 2)];
+        if (typeof v === "string" && blockSafe(v)) {
+          const body = v.endsWith("\n") ? v.slice(0, -1) : v;
+          return [`${head} ${v.endsWith("\n") ? "|" : "|-"}`, ...body.split("\n").map((l) => (l ? `${pad}  ${l}` : ""))];
+        }
+        return [`${head} ${inlineScalar(v)}`];
+      });
+  }
+  return [`${pad}${inlineScalar(value)}`];
+}
+
+function isMapping(value: any): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value) && Object.keys(value).length > 0;
+}
+
+function inlineScalar(value: any): string {
+  if (Array.isArray(value)) return "[]";
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "object") return "{}";
+  if (typeof value === "string") return plainSafe(value) ? value : JSON.stringify(value);
+  return String(value);
+}
+
+/** A string that reads back as itself without quotes. */
+function plainSafe(text: string): boolean {
+  return text !== ""
+    && text === text.trim()
+    && !/[\n\t]/.test(text)
+    && !/^[-?:,[\]{}#&*!|>'"%@`]/.test(text)
+    && !/:(\s|$)/.test(text)
+    && !/\s#/.test(text)
+    && scalar(text) === text;
+}
+
+/**
+ * A multi-line string a block scalar keeps exactly: no trailing spaces, at
+ * most one final newline, and one line at the left margin so no indentation
+ * gets stripped.
+ */
+function blockSafe(text: string): boolean {
+  if (!text.includes("\n") || text.endsWith("\n\n") || text.startsWith("\n")) return false;
+  const lines = (text.endsWith("\n") ? text.slice(0, -1) : text).split("\n");
+  return lines.every((l) => l === l.trimEnd()) && lines.some((l) => l && !/^\s/.test(l));
+}
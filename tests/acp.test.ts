@@ -0,0 +1,362 @@
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chmodSync, existsSync, readFileSync, realpathSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { AcpClient } from "../src/acp/client.js";
+import {
+  AcpCancelledError,
+  AcpProcessExitedError,
+  AcpRpcError,
+  AcpTimeoutError,
+} from "../src/acp/errors.js";
+import {
+  AcpRequestHandler,
+  RPC_INVALID_PARAMS,
+  RPC_METHOD_NOT_FOUND,
+  RPC_PERMISSION_DENIED,
+  RPC_RESOURCE_NOT_FOUND,
+} from "../src/acp/requests.js";
+import { AgentRunner } from "../src/loop/agent-runner.js";
+import { parseSessionUpdate } from "../src/acp/events.js";
+import { TranscriptLog } from "../src/transcript.js";
+import { AgentEvent, DEFAULT_CONFIG, PermissionDecision } from "../src/types.js";
+import { tempDir } from "./helpers.js";
+
+/**
+ * A fake `kiro-cli acp`. What it does with a prompt depends on the prompt
+ * text; every process start and `session/cancel` is logged to the bin dir.
+ */
+const FAKE_ACP = `#!/usr/bin/env node
+const fs = require("fs");
+const path = require("path");
+const dir = path.dirname(process.argv[1]);
+fs.appendFileSync(path.join(dir, "starts.log"), "start\\n");
+let pendingPrompt;
+const send = (msg) => process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...msg }) + "\\n");
+require("readline").createInterface({ input: process.stdin }).on("line", (line) => {
+  if (process.env.FAKE_ACP_MUTE) return;
+  const msg = JSON.parse(line);
+  if (msg.id === "call-1") {
+    send({ method: "session/notification", params: { sessionId: "s1", kind: "AgentMessageChunk", content: JSON.stringify("result" in msg ? msg.result : msg.error) } });
+    return send({ id: pendingPrompt, result: {} });
+  }
+  if (msg.method === "initialize") return send({ id: msg.id, result: { agentInfo: { version: "fake" } } });
+  if (msg.method === "session/new") return send({ id: msg.id, result: { sessionId: "s1" } });
+  if (msg.method === "_kiro.dev/commands/execute") return send({ id: msg.id, result: {} });
+  if (msg.method === "session/cancel") return fs.appendFileSync(path.join(dir, "cancels.log"), msg.params.sessionId + "\\n");
+  if (msg.method !== "session/prompt") return;
+
+  const text = msg.params.content[0].text;
+  if (text === "hello") {
+    send({ method: "session/notification", params: { sessionId: "s1", kind: "AgentMessageChunk", content: "Hel" } });
+    send({ method: "session/notification", params: { sessionId: "s1", kind: "AgentMessageChunk", content: "lo" } });
+    send({ id: "not-ours", method: "_kiro.dev/unknown", params: {} });
+    send({ id: msg.id, result: { stopReason: "end_turn" } });
+  } else if (text.startsWith("{")) {
+    // A request to make of the client; the reply becomes the agent's message
+    pendingPrompt = msg.id;
+    const { method, params } = JSON.parse(text);
+    send({ id: "call-1", method, params: { sessionId: "s1", ...params } });
+  } else if (text === "tools") {
+    const update = (u) => send({ method: "session/update", params: { sessionId: "s1", update: u } });
+    update({ sessionUpdate: "plan", entries: [{ content: "Write test", status: "completed" }, { content: "Fix bug", status: "pending" }] });
+    update({ sessionUpdate: "tool_call", toolCallId: "t1", title: "execute_bash", kind: "execute", status: "in_progress", rawInput: { command: "npm test" } });
+    update({ sessionUpdate: "tool_call_update", toolCallId: "t1", status: "completed", content: [{ type: "content", content: { type: "text", text: "1 passing" } }] });
+    update({ sessionUpdate: "agent_message_chunk", content: { type: "text", text: "All " } });
+    update({ sessionUpdate: "agent_message_chunk", content: { type: "text", text: "green" } });
+    update({ sessionUpdate: "available_commands_update", availableCommands: [] });
+    send({ id: msg.id, result: { stopReason: "end_turn" } });
+  } else if (text === "crash") {
+    process.stderr.write("fatal: out of tokens\\n");
+    process.exit(3);
+  } else if (text === "crash-once") {
+    if (fs.readFileSync(path.join(dir, "starts.log"), "utf-8").split("\\n").length <= 2) process.exit(1);
+    send({ id: msg.id, result: "recovered" });
+  } else if (text === "reject") {
+    send({ id: msg.id, error: { code: -32000, message: "agent refused" } });
+  }
+  // anything else: never answer
+});
+`;
+
+/** A prompt that makes the fake agent send `method` to the client. */
+const call = (method: string, params: object) => JSON.stringify({ method, params });
+
+describe("AcpClient", () => {
+  let binDir: string;
+  let client: AcpClient | undefined;
+
+  before(() => {
+    binDir = tempDir("kiro-wf-acp-");
+    writeFileSync(join(binDir, "kiro-cli"), FAKE_ACP);
+    chmodSync(join(binDir, "kiro-cli"), 0o755);
+    process.env.KIRO_CLI_PATH = join(binDir, "kiro-cli");
+  });
+
+  afterEach(async () => {
+    await client?.stop();
+    client = undefined;
+    rmSync(join(binDir, "starts.log"), { force: true });
+    rmSync(join(binDir, "cancels.log"), { force: true });
+  });
+
+  after(() => {
+    delete process.env.KIRO_CLI_PATH;
+    rmSync(binDir, { recursive: true, force: true });
+  });
+
+  const starts = () => readFileSync(join(binDir, "starts.log"), "utf-8").trim().split("\n").length;
+  const cancels = () => existsSync(join(binDir, "cancels.log")) ? readFileSync(join(binDir, "cancels.log"), "utf-8").trim().split("\n") : [];
+
+  it("collects streamed chunks and answers agent requests it doesn't serve", async () => {
+    client = new AcpClient();
+    const session = await client.newSession(tempDir());
+
+    assert.equal(await client.prompt(session, "hello"), "Hello");
+  });
+
+  it("emits typed events for tool calls, plan updates and message chunks", async () => {
+    client = new AcpClient();
+    const session = await client.newSession(tempDir());
+    const events: AgentEvent[] = [];
+
+    const output = await client.prompt(session, "tools", { onEvent: (e) => events.push(e) });
+
+    assert.equal(output, "All green");
+    assert.deepEqual(events, [
+      { type: "plan", entries: [{ content: "Write test", status: "completed" }, { content: "Fix bug", status: "pending" }] },
+      { type: "tool_call", id: "t1", title: "execute_bash", kind: "execute", status: "in_progress", input: { command: "npm test" } },
+      { type: "tool_call_update", id: "t1", status: "completed", output: "1 passing" },
+      { type: "message", text: "All " },
+      { type: "message", text: "green" },
+    ]);
+  });
+
+  it("serves the agent's file requests from the project directory", async () => {
+    const project = tempDir();
+    writeFileSync(join(project, "notes.txt"), "from disk");
+    client = new AcpClient({ projectDir: project });
+    const session = await client.newSession(project);
+
+    assert.deepEqual(JSON.parse(await client.prompt(session, call("fs/read_text_file", { path: "notes.txt" }))), { content: "from disk" });
+    const denied = JSON.parse(await client.prompt(session, call("fs/read_text_file", { path: "../outside.txt" })));
+    assert.equal(denied.code, RPC_INVALID_PARAMS);
+  });
+
+  it("rejects a prompt that outlives its timeout and cancels the turn", async () => {
+    client = new AcpClient();
+    const session = await client.newSession(tempDir());
+
+    await assert.rejects(client.prompt(session, "hang", { timeoutMs: 100 }), (err) => {
+      assert.ok(err instanceof AcpTimeoutError);
+      assert.equal(err.retryable, false);
+      return true;
+    });
+    await new Promise((r) => setTimeout(r, 50));
+    assert.deepEqual(cancels(), ["s1"]);
+  });
+
+  it("cancels a prompt when its signal aborts", async () => {
+    client = new AcpClient();
+    const session = await client.newSession(tempDir());
+    const controller = new AbortController();
+
+    const pending = client.prompt(session, "hang", { signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    await assert.rejects(pending, AcpCancelledError);
+    await new Promise((r) => setTimeout(r, 50));
+    assert.deepEqual(cancels(), ["s1"]);
+  });
+
+  it("surfaces JSON-RPC errors as AcpRpcError", async () => {
+    client = new AcpClient();
+    const session = await client.newSession(tempDir());
+
+    await assert.rejects(client.prompt(session, "reject"), (err) => {
+      assert.ok(err instanceof AcpRpcError);
+      assert.equal(err.code, -32000);
+      assert.match(err.message, /agent refused/);
+      return true;
+    });
+  });
+
+  it("rejects in-flight calls when the process dies and restarts on the next call", async () => {
+    client = new AcpClient();
+    const session = await client.newSession(tempDir());
+
+    await assert.rejects(client.prompt(session, "crash"), (err) => {
+      assert.ok(err instanceof AcpProcessExitedError);
+      assert.equal(err.code, 3);
+      assert.match(err.message, /out of tokens/);
+      return true;
+    });
+
+    const next = await client.newSession(tempDir());
+    assert.equal(await client.prompt(next, "hello"), "Hello");
+    assert.equal(starts(), 2);
+  });
+
+  it("times out a handshake that never answers", async () => {
+    process.env.FAKE_ACP_MUTE = "1";
+    client = new AcpClient({ requestTimeoutMs: 300 });
+
+    try {
+      await assert.rejects(client.start(), (err) => {
+        assert.ok(err instanceof AcpTimeoutError);
+        assert.equal(err.method, "initialize");
+        assert.equal(err.retryable, true);
+        return true;
+      });
+    } finally {
+      delete process.env.FAKE_ACP_MUTE;
+    }
+  });
+});
+
+describe("AgentRunner over ACP", () => {
+  let binDir: string;
+  let runner: AgentRunner | undefined;
+
+  beforeEach(() => {
+    binDir = tempDir("kiro-wf-acp-");
+    writeFileSync(join(binDir, "kiro-cli"), FAKE_ACP);
+    chmodSync(join(binDir, "kiro-cli"), 0o755);
+    process.env.KIRO_CLI_PATH = join(binDir, "kiro-cli");
+  });
+
+  afterEach(async () => {
+    await runner?.cleanup();
+    runner = undefined;
+    delete process.env.KIRO_CLI_PATH;
+    rmSync(binDir, { recursive: true, force: true });
+  });
+
+  it("retries a call once when the ACP process dies mid-call", async () => {
+    runner = new AgentRunner({ ...DEFAULT_CONFIG, backend: "acp", projectDir: tempDir() });
+
+    assert.equal(await runner.run("developer", "crash-once"), "\"recovered\"");
+  });
+
+  it("keeps the event stream in the transcript with message chunks merged", async () => {
+    const stateDir = tempDir();
+    runner = new AgentRunner({ ...DEFAULT_CONFIG, backend: "acp", projectDir: tempDir() }, new TranscriptLog(stateDir, "run-1"));
+    const seen: string[] = [];
+    runner.onEvent = (agent, event, context) => seen.push(`${agent}/${context.story}/${event.type}`);
+
+    await runner.run("developer", "tools", { story: "S1" });
+
+    const [entry] = TranscriptLog.read(stateDir, "run-1");
+    assert.deepEqual(entry.events?.map((e) => e.type), ["plan", "tool_call", "tool_call_update", "message"]);
+    assert.deepEqual(entry.events?.[3], { type: "message", text: "All green" });
+    assert.equal(seen.length, 5);
+    assert.equal(seen[0], "developer/S1/plan");
+  });
+
+  it("applies the permission policy to tool calls and reports each decision", async () => {
+    const project = tempDir();
+    runner = new AgentRunner({ ...DEFAULT_CONFIG, backend: "acp", projectDir: project });
+    const decisions: PermissionDecision[] = [];
+    runner.onPermission = (d) => decisions.push(d);
+
+    const written = await runner.run("developer", call("fs/write_text_file", { path: "src/a.ts", content: "x" }), { story: "S1" });
+    const secret = await runner.run("developer", call("fs/write_text_file", { path: ".env", content: "KEY=1" }));
+    const verifierEdit = await runner.run("verifier", call("session/request_permission", {
+      toolCall: { kind: "edit", title: "Edit a.ts", locations: [{ path: join(project, "src/a.ts") }] },
+      options: [{ optionId: "ok", kind: "allow_once" }, { optionId: "no", kind: "reject_once" }],
+    }));
+
+    assert.equal(written, "null");
+    assert.equal(JSON.parse(secret).code, RPC_PERMISSION_DENIED);
+    assert.ok(!existsSync(join(project, ".env")));
+    assert.deepEqual(JSON.parse(verifierEdit), { outcome: { outcome: "selected", optionId: "no" } });
+
+    assert.deepEqual(decisions.map((d) => [d.agent, d.kind, d.allowed]), [
+      ["developer", "write", true],
+      ["developer", "write", false],
+      ["verifier", "write", false],
+    ]);
+    assert.equal(decisions[0].story, "S1");
+    assert.match(decisions[1].reason, /\.env/);
+  });
+});
+
+describe("AcpRequestHandler", () => {
+  it("reads and writes files inside the project, with line ranges", async () => {
+    const project = tempDir();
+    const handler = new AcpRequestHandler(project);
+
+    assert.equal(await handler.handle("fs/write_text_file", { path: join(project, "src/a.txt"), content: "1\n2\n3\n4" }), null);
+    assert.equal(readFileSync(join(project, "src", "a.txt"), "utf-8"), "1\n2\n3\n4");
+    assert.deepEqual(await handler.handle("fs/read_text_file", { path: "src/a.txt", line: 2, limit: 2 }), { content: "2\n3" });
+  });
+
+  it("refuses paths outside the project and reports missing files", async () => {
+    const handler = new AcpRequestHandler(tempDir());
+
+    await assert.rejects(handler.handle("fs/read_text_file", { path: "/etc/passwd" }), { code: RPC_INVALID_PARAMS });
+    await assert.rejects(handler.handle("fs/write_text_file", { path: "../x", content: "" }), { code: RPC_INVALID_PARAMS });
+    await assert.rejects(handler.handle("fs/read_text_file", { path: "missing.txt" }), { code: RPC_RESOURCE_NOT_FOUND });
+    await assert.rejects(handler.handle("fs/delete", {}), { code: RPC_METHOD_NOT_FOUND });
+  });
+
+  it("runs terminal commands in the project and reports their exit", async () => {
+    const project = tempDir();
+    const handler = new AcpRequestHandler(project);
+
+    const { terminalId } = await handler.handle("terminal/create", { command: "pwd && echo oops >&2 && exit 2" }) as any;
+    assert.deepEqual(await handler.handle("terminal/wait_for_exit", { terminalId }), { exitCode: 2, signal: null });
+    const out = await handler.handle("terminal/output", { terminalId }) as any;
+    assert.match(out.output, /oops/);
+    assert.ok(out.output.includes(realpathSync(project)));
+    assert.equal(out.truncated, false);
+
+    await handler.handle("terminal/release", { terminalId });
+    await assert.rejects(handler.handle("terminal/output", { terminalId }), { code: RPC_RESOURCE_NOT_FOUND });
+  });
+
+  it("keeps the tail of output past the byte limit", async () => {
+    const handler = new AcpRequestHandler(tempDir());
+
+    const { terminalId } = await handler.handle("terminal/create", {
+      command: "node",
+      args: ["-e", "process.stdout.write('a'.repeat(100) + 'END')"],
+      outputByteLimit: 10,
+    }) as any;
+    await handler.handle("terminal/wait_for_exit", { terminalId });
+
+    assert.deepEqual(await handler.handle("terminal/output", { terminalId }), {
+      output: "aaaaaaaEND",
+      truncated: true,
+      exitStatus: { exitCode: 0, signal: null },
+    });
+  });
+
+  it("grants permission requests with the allow-once option", async () => {
+    const handler = new AcpRequestHandler(tempDir());
+    const options = [
+      { optionId: "no", name: "Reject", kind: "reject_once" },
+      { optionId: "yes", name: "Allow", kind: "allow_once" },
+    ];
+
+    assert.deepEqual(
+      await handler.handle("session/request_permission", { sessionId: "s1", toolCall: {}, options }),
+      { outcome: { outcome: "selected", optionId: "yes" } },
+    );
+  });
+});
+
+describe("parseSessionUpdate", () => {
+  it("reads kiro-cli's session/notification kinds", () => {
+    assert.deepEqual(parseSessionUpdate({ sessionId: "s1", kind: "AgentMessageChunk", content: "hi" }), { type: "message", text: "hi" });
+    assert.deepEqual(
+      parseSessionUpdate({ sessionId: "s1", kind: "ToolCall", toolCallId: "t1", title: "fs_write", status: "pending" }),
+      { type: "tool_call", id: "t1", title: "fs_write", kind: undefined, status: "pending", input: undefined },
+    );
+    assert.equal(parseSessionUpdate({ sessionId: "s1", kind: "TurnEnd" }), "turn_end");
+  });
+
+  it("ignores updates it doesn't track", () => {
+    assert.equal(parseSessionUpdate({ sessionId: "s1", update: { sessionUpdate: "current_mode_update" } }), undefined);
+  });
+});
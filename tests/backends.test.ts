@@ -0,0 +1,77 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chmodSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { CliBackend } from "../src/backends/cli.js";
+import { DEFAULT_CONFIG } from "../src/types.js";
+import { tempDir } from "./helpers.js";
+
+/**
+ * Put a `kiro-cli` that runs the given Node.js body first on PATH.
+ */
+function fakeCli(body: string): () => void {
+  const binDir = tempDir("kiro-wf-bin-");
+  const bin = join(binDir, "kiro-cli");
+  writeFileSync(bin, `#!/usr/bin/env node\n${body}\n`);
+  chmodSync(bin, 0o755);
+
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${binDir}:${originalPath}`;
+  return () => {
+    process.env.PATH = originalPath;
+    rmSync(binDir, { recursive: true, force: true });
+  };
+}
+
+describe("CliBackend", () => {
+  let restore: (() => void) | undefined;
+
+  afterEach(() => {
+    restore?.();
+    restore = undefined;
+  });
+
+  it("writes the prompt to stdin verbatim", async () => {
+    restore = fakeCli(`process.stdout.write(require("fs").readFileSync(0, "utf-8"));`);
+    const prompt = 'Run `npm test` in "$HOME" — don\'t expand $(whoami)';
+
+    const output = await new CliBackend({ ...DEFAULT_CONFIG, projectDir: tempDir() }).run("developer", prompt);
+
+    assert.equal(output, prompt);
+  });
+
+  it("streams output lines as they arrive", async () => {
+    restore = fakeCli(`
+process.stdout.write("one\\ntw");
+setTimeout(() => process.stdout.write("o\\nthree"), 50);`);
+    const lines: string[] = [];
+
+    const output = await new CliBackend({ ...DEFAULT_CONFIG, projectDir: tempDir() })
+      .run("developer", "go", { onOutput: (line) => lines.push(line) });
+
+    assert.deepEqual(lines, ["one", "two", "three"]);
+    assert.equal(output, "one\ntwo\nthree");
+  });
+
+  it("kills an agent that exceeds its per-agent timeout", async () => {
+    restore = fakeCli(`process.stdout.write("working\\n"); setInterval(() => {}, 1000);`);
+    const backend = new CliBackend({
+      ...DEFAULT_CONFIG,
+      projectDir: tempDir(),
+      agentTimeouts: { developer: 300 },
+    });
+
+    const started = Date.now();
+    await assert.rejects(backend.run("developer", "go"), /Agent 'developer' failed: timed out after 0.3s/);
+    assert.ok(Date.now() - started < 5_000);
+  });
+
+  it("reports stderr when the agent fails", async () => {
+    restore = fakeCli(`process.stderr.write("not logged in"); process.exit(3);`);
+
+    await assert.rejects(
+      new CliBackend({ ...DEFAULT_CONFIG, projectDir: tempDir() }).run("developer", "go"),
+      /Agent 'developer' failed: not logged in/,
+    );
+  });
+});
@@ -0,0 +1,262 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawn, spawnSync } from "child_process";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { ROOT, git, installFakeKiro, makeRepo, makeRun, makeStory, writeJson } from "./helpers.js";
+
+function cli(cwd: string, ...args: string[]) {
+  return spawnSync(process.execPath, [join(ROOT, "dist", "cli.js"), ...args], {
+    cwd,
+    encoding: "utf-8",
+    env: { ...process.env, HOME: cwd },
+  });
+}
+
+/** Whether a process exists and isn't a zombie waiting to be reaped. */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    const stat = readFileSync(`/proc/${pid}/stat`, "utf-8");
+    return stat.slice(stat.lastIndexOf(")") + 2)[0] !== "Z";
+  } catch {
+    return false;
+  }
+}
+
+describe("kiro-workflow CLI", () => {
+  let repo: string;
+
+  beforeEach(() => {
+    repo = makeRepo();
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("setup --mcp adds missing servers without overwriting existing ones", () => {
+    const mcpPath = join(repo, ".kiro", "settings", "mcp.json");
+    writeJson(mcpPath, {
+      mcpServers: {
+        git: { command: "my-git-server", args: [] },
+        custom: { command: "custom-server" },
+      },
+    });
+
+    const result = cli(repo, "setup", "--mcp");
+    assert.equal(result.status, 0, result.stderr);
+
+    const servers = JSON.parse(readFileSync(mcpPath, "utf-8")).mcpServers;
+    assert.equal(servers.git.command, "my-git-server");
+    assert.equal(servers.custom.command, "custom-server");
+    assert.ok(servers.filesystem);
+    assert.ok(servers.github);
+  });
+
+  it("setup --mcp installs the template when there is no config", () => {
+    const result = cli(repo, "setup", "--mcp");
+    assert.equal(result.status, 0, result.stderr);
+
+    const servers = JSON.parse(readFileSync(join(repo, ".kiro", "settings", "mcp.json"), "utf-8")).mcpServers;
+    assert.deepEqual(Object.keys(servers).sort(), ["filesystem", "git", "github"]);
+  });
+
+  it("list shows project workflows next to the built-ins", () => {
+    writeJson(join(repo, ".kiro", "workflows", "docs.json"), {
+      description: "Write docs",
+      steps: [{ agent: "planner", role: "plan" }, { agent: "developer", role: "implement", loop: true }],
+    });
+
+    const result = cli(repo, "list");
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stdout, /feature-dev/);
+    assert.match(result.stdout, /docs\n\s+Write docs\n\s+Pipeline: planner → developer/);
+  });
+
+  it("run --output ndjson prints one event per line and exits by outcome", () => {
+    writeJson(join(repo, ".kiro", "fixtures", "run.json"), [
+      { agent: "planner", output: JSON.stringify([{ id: "a", title: "A", description: "d", acceptance_criteria: ["works"] }]) },
+      { agent: "verifier", times: 1, output: "STATUS: retry\nISSUES:\n- no test" },
+      { agent: "verifier", output: "STATUS: done" },
+      { agent: "*", output: "ok" },
+    ]);
+    git(repo, "add", "-A");
+    git(repo, "commit", "-qm", "Add fixtures");
+
+    const result = cli(repo, "run", "feature-dev", "Add A", "--backend", "scripted", "--output", "ndjson");
+    assert.equal(result.status, 0, result.stderr);
+
+    const events = result.stdout.trim().split("\n").map((line) => JSON.parse(line));
+    const types = events.map((e) => e.type);
+    assert.equal(types[0], "run:start");
+    assert.ok(types.includes("plan:ready"));
+    assert.deepEqual(types.filter((t) => t.startsWith("story:")), ["story:start", "story:failed", "story:start", "story:verified"]);
+    const failed = events.find((e) => e.type === "story:failed");
+    assert.equal(failed.retrying, true);
+    assert.deepEqual(failed.verdict.issues, ["no test"]);
+    const end = events[events.length - 1];
+    assert.equal(end.type, "run:end");
+    assert.equal(end.exitCode, 0);
+    assert.equal(end.run.status, "done");
+  });
+
+  it("run exits 1 when a story fails, even though the later steps ran", () => {
+    writeJson(join(repo, ".kiro", "fixtures", "run.json"), [
+      { agent: "planner", output: JSON.stringify([
+        { id: "a", title: "A", description: "d", acceptance_criteria: ["works"] },
+        { id: "b", title: "B", description: "d", acceptance_criteria: ["works"], depends_on: ["a"] },
+      ]) },
+      { agent: "verifier", output: "STATUS: retry\nISSUES:\n- still broken" },
+      { agent: "*", output: "ok" },
+    ]);
+    git(repo, "add", "-A");
+    git(repo, "commit", "-qm", "Add fixtures");
+
+    const result = cli(repo, "run", "feature-dev", "Add A", "--backend", "scripted", "--output", "ndjson");
+    assert.equal(result.status, 1, result.stderr);
+
+    const events = result.stdout.trim().split("\n").map((line) => JSON.parse(line));
+    assert.ok(events.some((e) => e.type === "step:end" && e.role === "compound"));
+    const end = events[events.length - 1];
+    assert.equal(end.exitCode, 1);
+    assert.equal(end.run.status, "failed");
+    assert.match(end.error, /2\/2 stories not done: a \(failed\), b \(blocked\)/);
+  });
+
+  it("run --output ndjson ends with run:end when the run can't start", () => {
+    writeFileSync(join(repo, "README.md"), "# changed\n");
+
+    const result = cli(repo, "run", "feature-dev", "Add A", "--backend", "scripted", "--output", "ndjson");
+    assert.equal(result.status, 1);
+
+    const end = JSON.parse(result.stdout.trim().split("\n").pop()!);
+    assert.equal(end.type, "run:end");
+    assert.equal(end.exitCode, 1);
+    assert.match(end.error, /Refusing to start the run[\s\S]*README\.md/);
+  });
+
+  it("run exits 2 when planning produces no stories", () => {
+    writeJson(join(repo, ".kiro", "fixtures", "run.json"), [{ agent: "*", output: "no plan here" }]);
+    git(repo, "add", "-A");
+    git(repo, "commit", "-qm", "Add fixtures");
+
+    const result = cli(repo, "run", "feature-dev", "Add A", "--backend", "scripted", "--json");
+    assert.equal(result.status, 2);
+    const end = JSON.parse(result.stdout.trim().split("\n").pop()!);
+    assert.equal(end.exitCode, 2);
+    assert.match(end.error, /story array/);
+  });
+
+  it("run stops on SIGINT, saves the run as interrupted and exits 130", async () => {
+    const fake = installFakeKiro({
+      planner: [JSON.stringify([{ id: "a", title: "A", description: "d", acceptance_criteria: ["works"] }])],
+      developer: [{ output: "", delayMs: 30_000 }],
+    });
+    try {
+      const child = spawn(process.execPath, [join(ROOT, "dist", "cli.js"), "run", "feature-dev", "Add A", "--output", "ndjson"], {
+        cwd: repo,
+        env: { ...process.env, HOME: repo },
+      });
+      let stdout = "";
+      child.stdout.setEncoding("utf-8");
+      child.stdout.on("data", (chunk: string) => { stdout += chunk; });
+      const exited = new Promise<number | null>((resolve) => child.on("close", resolve));
+
+      // Interrupt once the developer agent is working
+      while (child.exitCode === null && !fake.calls().some((c) => c.agent === "developer")) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      child.kill("SIGINT");
+
+      assert.equal(await exited, 130);
+      const end = JSON.parse(stdout.trim().split("\n").pop()!);
+      assert.equal(end.type, "run:end");
+      assert.equal(end.exitCode, 130);
+      const statePath = join(repo, ".kiro", ".workflows", `${end.run.id}.json`);
+      assert.ok(existsSync(statePath));
+      const saved = JSON.parse(readFileSync(statePath, "utf-8"));
+      assert.equal(saved.status, "interrupted");
+      assert.equal(saved.stories[0].status, "pending");
+    } finally {
+      fake.restore();
+    }
+  });
+
+  it("a second SIGINT exits at once and kills the agent's process group", async () => {
+    const fake = installFakeKiro({
+      planner: [JSON.stringify([{ id: "a", title: "A", description: "d", acceptance_criteria: ["works"] }])],
+      developer: [{ output: "", delayMs: 30_000, ignoreSigterm: true }],
+    });
+    try {
+      const child = spawn(process.execPath, [join(ROOT, "dist", "cli.js"), "run", "feature-dev", "Add A", "--output", "ndjson"], {
+        cwd: repo,
+        env: { ...process.env, HOME: repo },
+      });
+      const exited = new Promise<number | null>((resolve) => child.on("close", resolve));
+      const developer = async () => {
+        for (;;) {
+          const call = fake.calls().find((c) => c.agent === "developer");
+          if (call || child.exitCode !== null) return call;
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+      };
+
+      const call = await developer();
+      assert.ok(call, "developer agent never started");
+      child.kill("SIGINT");
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      child.kill("SIGINT");
+
+      assert.equal(await exited, 130);
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      assert.ok(!isRunning(call.pid), "agent outlived the CLI");
+    } finally {
+      fake.restore();
+    }
+  });
+
+  it("status <run-id> shows each story's retries and the verifier's feedback", () => {
+    writeJson(join(repo, ".kiro", ".workflows", "3f9a2c1b.json"), makeRun([
+      makeStory("setup-auth", { status: "done" }),
+      makeStory("add-login", { status: "failed", retryCount: 3, verifyFeedback: "STATUS: retry\nISSUES:\n- no test for bad passwords" }),
+    ], { id: "3f9a2c1b", status: "failed" }));
+
+    const result = cli(repo, "status", "3f9a2c1b");
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stdout, /Stories: 1\/2/);
+    assert.match(result.stdout, /❌ add-login  Story add-login  \(retries 3\/3\)\n.*\n.*\n\s+- no test for bad passwords/);
+    assert.match(result.stdout, /Resume: kiro-workflow resume 3f9a2c1b/);
+
+    writeJson(join(repo, ".kiro", ".workflows", "finished.json"), makeRun([
+      makeStory("add-login", { status: "failed" }),
+    ], { id: "finished", status: "failed", currentStep: 5 }));
+    const finished = cli(repo, "status", "finished");
+    assert.equal(finished.status, 0, finished.stderr);
+    assert.doesNotMatch(finished.stdout, /Resume:/);
+    assert.match(finished.stdout, /Nothing left to resume/);
+  });
+
+  it("list-runs filters by status and prune needs a filter", () => {
+    const old = new Date(Date.now() - 40 * 86_400_000).toISOString();
+    writeJson(join(repo, ".kiro", ".workflows", "a.json"), makeRun([], { id: "a", status: "failed", createdAt: old, updatedAt: old }));
+    writeJson(join(repo, ".kiro", ".workflows", "b.json"), makeRun([], { id: "b", status: "done" }));
+
+    const listed = cli(repo, "list-runs", "--status", "failed");
+    assert.equal(listed.status, 0, listed.stderr);
+    assert.match(listed.stdout, /^\s+a\s/m);
+    assert.doesNotMatch(listed.stdout, /^\s+b\s/m);
+
+    assert.equal(cli(repo, "prune").status, 1);
+    const pruned = cli(repo, "prune", "--older-than", "30d");
+    assert.equal(pruned.status, 0, pruned.stderr);
+    assert.ok(!existsSync(join(repo, ".kiro", ".workflows", "a.json")));
+    assert.ok(existsSync(join(repo, ".kiro", ".workflows", "b.json")));
+  });
+
+  it("run rejects an unknown workflow", () => {
+    const result = cli(repo, "run", "nope", "task");
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Unknown workflow: nope/);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { detectGates, gateFeedback, loadGates, runGates } from "../src/gates.js";
+import { tempDir, writeJson } from "./helpers.js";
+
+describe("quality gates", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = tempDir();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("detects package.json scripts, skipping npm's placeholder test", () => {
+    writeJson(join(dir, "package.json"), {
+      scripts: { build: "tsc", dev: "vite", lint: "eslint .", test: "echo \"Error: no test specified\" && exit 1" },
+    });
+    assert.deepEqual(detectGates(dir), [
+      { name: "build", command: "npm run build" },
+      { name: "lint", command: "npm run lint" },
+    ]);
+  });
+
+  it("detects Cargo.toml and go.mod projects", () => {
+    writeFileSync(join(dir, "go.mod"), "module example.com/x\n");
+    assert.deepEqual(detectGates(dir).map((g) => g.command), ["go build ./...", "go test ./..."]);
+    writeFileSync(join(dir, "Cargo.toml"), "[package]\n");
+    assert.deepEqual(detectGates(dir).map((g) => g.name), ["build", "lint", "test"]);
+  });
+
+  it("applies .kiro/workflow-gates.json overrides in gate order", () => {
+    writeJson(join(dir, "package.json"), { scripts: { test: "node --test", lint: "eslint ." } });
+    writeJson(join(dir, ".kiro", "workflow-gates.json"), { lint: false, typecheck: "npx tsc --noEmit" });
+    assert.deepEqual(loadGates(dir), [
+      { name: "typecheck", command: "npx tsc --noEmit" },
+      { name: "test", command: "npm test" },
+    ]);
+
+    writeJson(join(dir, ".kiro", "workflow-gates.json"), { format: "prettier --check ." });
+    assert.throws(() => loadGates(dir), /unknown gate 'format'/);
+  });
+
+  it("stops at the first failing gate and reports its output", async () => {
+    const results = await runGates([
+      { name: "build", command: "echo built" },
+      { name: "test", command: "echo '1 failing: adds numbers' >&2; exit 1" },
+      { name: "lint", command: "touch linted" },
+    ], dir, 5_000);
+
+    assert.deepEqual(results.map((r) => [r.name, r.passed]), [["build", true], ["test", false]]);
+    assert.equal(results[1].exit, "exited with code 1");
+    assert.match(gateFeedback(results[1]), /Quality gate "test" failed: `echo .*` exited with code 1\.[\s\S]*1 failing: adds numbers/);
+  });
+
+  it("times out a hanging gate", async () => {
+    const [result] = await runGates([{ name: "test", command: "sleep 5" }], dir, 200);
+    assert.equal(result.passed, false);
+    assert.equal(result.exit, "timed out after 0.2s");
+  });
+
+  it("kills everything a timed-out gate started", async () => {
+    const [result] = await runGates([{ name: "test", command: "(sleep 0.5; touch survived) & wait" }], dir, 200);
+    await new Promise((resolve) => setTimeout(resolve, 800));
+
+    assert.equal(result.passed, false);
+    assert.ok(!existsSync(join(dir, "survived")));
+  });
+});
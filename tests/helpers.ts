@@ -0,0 +1,151 @@
+/**
+ * Shared fixtures for the TypeScript test suite: temporary git repos and a
+ * fake `kiro-cli` on PATH that answers from canned responses.
+ */
+
+import { execFileSync } from "child_process";
+import { chmodSync, cpSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { Story, WorkflowRun } from "../src/types.js";
+
+/** Repository root (tests compile to build-test/tests/). */
+export const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..", "..");
+
+export function tempDir(prefix = "kiro-wf-test-"): string {
+  return mkdtempSync(join(tmpdir(), prefix));
+}
+
+export function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8", stdio: "pipe" }).trim();
+}
+
+/**
+ * A fresh git repo with one commit and the shipped agents in `.kiro/agents/`.
+ */
+export function makeRepo(): string {
+  const dir = tempDir();
+  git(dir, "init", "-q", "-b", "main");
+  git(dir, "config", "user.name", "Test");
+  git(dir, "config", "user.email", "test@example.com");
+  cpSync(join(ROOT, ".kiro", "agents"), join(dir, ".kiro", "agents"), { recursive: true });
+  writeFileSync(join(dir, "README.md"), "# test\n");
+  git(dir, "add", "-A");
+  git(dir, "commit", "-q", "-m", "init");
+  return dir;
+}
+
+/** A canned agent reply. Objects can also write files, as a real agent would. */
+export type FakeResponse = string | { output: string; files?: Record<string, string>; exit?: number; delayMs?: number; ignoreSigterm?: boolean };
+
+export interface FakeCall {
+  agent: string;
+  prompt: string;
+  cwd: string;
+  pid: number;
+}
+
+export interface FakeKiro {
+  binDir: string;
+  calls(): FakeCall[];
+  restore(): void;
+}
+
+/**
+ * Put a fake `kiro-cli` first on PATH. Each agent answers with the next entry
+ * of its response list; the last entry repeats. Agents without responses
+ * reply "ok".
+ */
+export function installFakeKiro(responses: Record<string, FakeResponse[]>): FakeKiro {
+  const binDir = tempDir("kiro-wf-bin-");
+  writeFileSync(join(binDir, "responses.json"), JSON.stringify(responses));
+
+  const script = `#!/usr/bin/env node
+const fs = require("fs");
+const path = require("path");
+const dir = ${JSON.stringify(binDir)};
+const agent = process.argv[process.argv.indexOf("--agent") + 1];
+const prompt = fs.readFileSync(0, "utf-8");
+const responses = JSON.parse(fs.readFileSync(path.join(dir, "responses.json"), "utf-8"));
+const countsFile = path.join(dir, "counts.json");
+const counts = fs.existsSync(countsFile) ? JSON.parse(fs.readFileSync(countsFile, "utf-8")) : {};
+const n = counts[agent] || 0;
+counts[agent] = n + 1;
+fs.writeFileSync(countsFile, JSON.stringify(counts));
+fs.appendFileSync(path.join(dir, "calls.jsonl"), JSON.stringify({ agent, prompt, cwd: process.cwd(), pid: process.pid }) + "\\n");
+const list = responses[agent] || ["ok"];
+let r = list[Math.min(n, list.length - 1)];
+if (typeof r === "string") r = { output: r };
+if (r.ignoreSigterm) process.on("SIGTERM", () => {});
+for (const [file, content] of Object.entries(r.files || {})) {
+  fs.mkdirSync(path.dirname(path.join(process.cwd(), file)), { recursive: true });
+  fs.writeFileSync(path.join(process.cwd(), file), content);
+}
+setTimeout(() => {
+  process.stdout.write(r.output);
+  process.exit(r.exit || 0);
+}, r.delayMs || 0);
+`;
+  const bin = join(binDir, "kiro-cli");
+  writeFileSync(bin, script);
+  chmodSync(bin, 0o755);
+
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${binDir}:${originalPath}`;
+
+  return {
+    binDir,
+    calls() {
+      const file = join(binDir, "calls.jsonl");
+      if (!existsSync(file)) return [];
+      return readFileSync(file, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+    },
+    restore() {
+      process.env.PATH = originalPath;
+      rmSync(binDir, { recursive: true, force: true });
+    },
+  };
+}
+
+export function makeStory(id: string, overrides: Partial<Story> = {}): Story {
+  return {
+    id,
+    title: `Story ${id}`,
+    description: `Implement ${id}`,
+    acceptanceCriteria: [`${id} works`],
+    dependsOn: [],
+    status: "pending",
+    retryCount: 0,
+    maxRetries: 3,
+    ...overrides,
+  };
+}
+
+export function makeRun(stories: Story[], overrides: Partial<WorkflowRun> = {}): WorkflowRun {
+  const now = new Date().toISOString();
+  return {
+    id: "test-run",
+    workflow: "feature-dev",
+    task: "Test task",
+    status: "running",
+    stories,
+    branch: "workflow/test",
+    progress: [],
+    learnings: [],
+    findings: [],
+    permissions: [],
+    hooks: [],
+    createdAt: now,
+    updatedAt: now,
+    iteration: 0,
+    maxIterations: 15,
+    currentStep: 1,
+    ...overrides,
+  };
+}
+
+export function writeJson(path: string, value: unknown) {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(value, null, 2));
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, rmSync } from "fs";
+import { join } from "path";
+import { RunHistory } from "../src/history.js";
+import { DEFAULT_REPO_SETTINGS } from "../src/repo.js";
+import { TranscriptLog } from "../src/transcript.js";
+import { git, makeRepo, makeRun, writeJson } from "./helpers.js";
+
+const DAY = 86_400_000;
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY).toISOString();
+}
+
+describe("RunHistory", () => {
+  let repo: string;
+  let history: RunHistory;
+
+  beforeEach(() => {
+    repo = makeRepo();
+    history = new RunHistory(repo);
+    history.save(makeRun([], { id: "old-fail", workflow: "bug-fix", status: "failed", branch: "workflow/old", createdAt: daysAgo(40), updatedAt: daysAgo(40) }));
+    history.save(makeRun([], { id: "new-fail", workflow: "feature-dev", status: "failed", branch: "workflow/new", createdAt: daysAgo(2), updatedAt: daysAgo(2) }));
+    history.save(makeRun([], { id: "old-done", workflow: "feature-dev", status: "done", branch: "workflow/done", createdAt: daysAgo(50), updatedAt: daysAgo(45) }));
+    history.save(makeRun([], { id: "stuck", workflow: "bug-fix", status: "running", branch: "workflow/stuck", createdAt: daysAgo(60), updatedAt: daysAgo(60) }));
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("lists runs newest first, filtered by workflow, status and date", () => {
+    assert.deepEqual(history.list().map((r) => r.id), ["new-fail", "old-fail", "old-done", "stuck"]);
+    assert.deepEqual(history.list({ workflow: "bug-fix" }).map((r) => r.id), ["old-fail", "stuck"]);
+    assert.deepEqual(history.list({ status: ["failed", "done"], since: new Date(Date.now() - 45 * DAY) }).map((r) => r.id), ["new-fail", "old-fail"]);
+    assert.deepEqual(history.list({ until: new Date(Date.now() - 45 * DAY) }).map((r) => r.id), ["old-done", "stuck"]);
+  });
+
+  it("sorts by workflow or status, newest first within a group", () => {
+    assert.deepEqual(history.list({}, "workflow").map((r) => r.id), ["old-fail", "stuck", "new-fail", "old-done"]);
+    assert.deepEqual(history.list({}, "status").map((r) => r.id), ["old-done", "new-fail", "old-fail", "stuck"]);
+  });
+
+  it("adds up agent calls and time per story from the transcript", () => {
+    const log = new TranscriptLog(history.stateDir, "new-fail");
+    const call = { prompt: "p", output: "o", startedAt: daysAgo(2), status: "ok" as const };
+    log.record({ ...call, agent: "developer", story: "a", durationMs: 1500 });
+    log.record({ ...call, agent: "verifier", story: "a", durationMs: 500 });
+    log.record({ ...call, agent: "planner", durationMs: 900 });
+
+    const timings = history.storyTimings("new-fail");
+
+    assert.deepEqual([...timings], [["a", { calls: 2, durationMs: 2000 }]]);
+  });
+
+  it("prunes old runs with their transcripts and branches, leaving active runs alone", () => {
+    for (const branch of ["workflow/old", "workflow/done", "workflow/stuck"]) git(repo, "branch", branch);
+    new TranscriptLog(history.stateDir, "old-fail").record({
+      agent: "developer", prompt: "p", output: "o", startedAt: daysAgo(40), durationMs: 1, status: "ok",
+    });
+
+    const result = history.prune({ updatedBefore: new Date(Date.now() - 30 * DAY) }, { deleteBranches: true, repo: DEFAULT_REPO_SETTINGS });
+
+    assert.deepEqual(result.runs.map((r) => r.id), ["old-fail", "old-done"]);
+    assert.deepEqual(result.branches, ["workflow/old", "workflow/done"]);
+    assert.deepEqual(history.list().map((r) => r.id), ["new-fail", "stuck"]);
+    assert.ok(!existsSync(join(history.stateDir, "old-fail")));
+    assert.equal(git(repo, "branch", "--list", "workflow/*"), "workflow/stuck");
+  });
+
+  it("skips state files whose run id isn't their name, so prune stays inside its own files", () => {
+    writeJson(join(history.stateDir, "empty.json"), makeRun([], { id: "", status: "failed", updatedAt: daysAgo(90) }));
+    writeJson(join(history.stateDir, "up.json"), makeRun([], { id: "..", status: "failed", updatedAt: daysAgo(90) }));
+
+    const result = history.prune({ status: ["failed"] });
+
+    assert.deepEqual(result.runs.map((r) => r.id), ["new-fail", "old-fail"]);
+    assert.ok(existsSync(join(history.stateDir, "empty.json")));
+    assert.ok(existsSync(join(repo, ".kiro", "agents")));
+  });
+
+  it("never deletes protected or checked-out branches, and changes nothing on a dry run", () => {
+    history.save(makeRun([], { id: "on-main", status: "failed", branch: "main", createdAt: daysAgo(90), updatedAt: daysAgo(90) }));
+    git(repo, "checkout", "-q", "-b", "workflow/old");
+
+    const dry = history.prune({ status: ["failed"] }, { deleteBranches: true, dryRun: true, repo: DEFAULT_REPO_SETTINGS });
+
+    assert.deepEqual(dry.runs.map((r) => r.id), ["new-fail", "old-fail", "on-main"]);
+    assert.deepEqual(dry.keptBranches, [
+      { branch: "workflow/new", reason: "no longer exists" },
+      { branch: "workflow/old", reason: "checked out" },
+      { branch: "main", reason: "protected" },
+    ]);
+    assert.equal(history.list().length, 5);
+  });
+});
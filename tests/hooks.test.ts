@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { HookEngine, loadHooks, parseHook } from "../src/hooks.js";
+import { parseYaml, stringifyYaml } from "../src/yaml.js";
+import { AgentRunner } from "../src/loop/agent-runner.js";
+import { RalphLoop } from "../src/loop/ralph.js";
+import { DEFAULT_CONFIG } from "../src/types.js";
+import { FakeKiro, ROOT, git, installFakeKiro, makeRepo, makeRun, makeStory } from "./helpers.js";
+
+function hookFile(trigger: string, agent: string, action: string): string {
+  return `# Hook: test\n\n## Trigger\n\n\`\`\`yaml\n${trigger}\n\`\`\`\n\n## Agent\n\n\`\`\`yaml\n${agent}\n\`\`\`\n\n## Action\n\n\`\`\`yaml\n${action}\n\`\`\`\n`;
+}
+
+function writeHook(repo: string, name: string, content: string) {
+  mkdirSync(join(repo, ".kiro", "hooks"), { recursive: true });
+  writeFileSync(join(repo, ".kiro", "hooks", name), content);
+}
+
+describe("parseYaml", () => {
+  it("reads nested maps, lists of maps and block scalars", () => {
+    const value = parseYaml(`description: Check things   # trailing comment
+steps:
+  - action: run-script
+    command: "echo 'hi' # not a comment"
+    fail_on_error: true
+  - action: invoke-agent
+    input: |
+      Line one
+        indented
+      Line three
+branches:
+- main
+- develop
+timeout: 30
+tags: [a, "b c"]
+`);
+    assert.deepEqual(value, {
+      description: "Check things",
+      steps: [
+        { action: "run-script", command: "echo 'hi' # not a comment", fail_on_error: true },
+        { action: "invoke-agent", input: "Line one\n  indented\nLine three\n" },
+      ],
+      branches: ["main", "develop"],
+      timeout: 30,
+      tags: ["a", "b c"],
+    });
+  });
+
+  it("reports the line of malformed input", () => {
+    assert.throws(() => parseYaml("a: 1\n  b: 2\n"), /line 2/);
+  });
+});
+
+describe("stringifyYaml", () => {
+  it("writes values parseYaml reads back unchanged", () => {
+    const value = {
+      plain: "Add the login form",
+      tricky: ["key: value", "a # b", "- dash", "true", "42", "", " padded", "it's \"quoted\""],
+      block: "Line one\n  indented\n\nLine four\n",
+      noFinalNewline: "a\nb",
+      indentedFirst: "  a\nb",
+      nested: [{ id: "x", list: [], map: {}, none: null, n: 3, flag: false }, [["deep"]]],
+      "odd key: #1": "v",
+    };
+
+    const yaml = stringifyYaml(value);
+
+    assert.deepEqual(parseYaml(yaml), value);
+    assert.match(yaml, /^block: \|\n  Line one\n    indented\n\n  Line four$/m);
+  });
+});
+
+describe("parseHook", () => {
+  it("parses the shipped hooks", () => {
+    const hooks = loadHooks(ROOT);
+    const byName = Object.fromEntries(hooks.map((h) => [h.name, h]));
+
+    assert.equal(byName["pre-commit"].event, "git-commit");
+    assert.equal(byName["pre-commit"].when, "before");
+    assert.equal(byName["pre-commit"].agent, undefined);
+    assert.equal(byName["pre-commit"].timeoutMs, 30_000);
+    assert.equal(byName["pre-commit"].steps[0].failOnError, true);
+
+    assert.deepEqual(byName["post-review"].agents, ["reviewer"]);
+    assert.equal(byName["post-review"].agent, "compound");
+    assert.deepEqual(byName["post-review"].steps.map((s) => s.action), ["invoke-agent", "conditional-update", "append-log"]);
+    assert.match(byName["post-review"].steps[0].input!, /^The reviewer agent just completed/);
+  });
+
+  it("rejects hooks without a trigger event or steps", () => {
+    assert.throws(() => parseHook(hookFile("when: after", "agent: none", "steps:\n  - action: run-script\n    command: true"), "x.md"), /event/);
+    assert.throws(() => parseHook(hookFile("event: run", "agent: none", "description: nothing"), "x.md"), /steps/);
+    assert.throws(() => parseHook(hookFile("event: run\nwhen: during", "agent: none", "steps:\n  - action: run-script\n    command: true"), "x.md"), /when/);
+  });
+});
+
+describe("HookEngine", () => {
+  let repo: string;
+  let fake: FakeKiro | undefined;
+
+  beforeEach(() => {
+    repo = makeRepo();
+  });
+
+  afterEach(() => {
+    fake?.restore();
+    fake = undefined;
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("runs matching scripts with run context and records the results", async () => {
+    writeHook(repo, "a-start.md", hookFile("event: run\nwhen: before", "agent: none",
+      "steps:\n  - action: run-script\n    command: echo \"$KIRO_WORKFLOW_RUN_ID $KIRO_WORKFLOW_EVENT\" > started.txt\n  - action: append-log"));
+    writeHook(repo, "b-end.md", hookFile("event: run\nwhen: after", "agent: none",
+      "steps:\n  - action: run-script\n    command: touch ended.txt"));
+    const run = makeRun([]);
+    const runner = new AgentRunner({ ...DEFAULT_CONFIG, projectDir: repo });
+
+    const outcome = await HookEngine.load(repo).fire("run", "before", { run, cwd: repo, runner });
+
+    assert.equal(outcome.blocked, false);
+    assert.equal(readFileSync(join(repo, "started.txt"), "utf-8"), "test-run before:run\n");
+    assert.equal(run.hooks.length, 1);
+    assert.equal(run.hooks[0].status, "passed");
+    assert.deepEqual(run.hooks[0].steps.map((s) => s.status), ["passed", "skipped"]);
+  });
+
+  it("blocks on a failing fail_on_error step and stops there", async () => {
+    writeHook(repo, "check.md", hookFile("event: git-commit\nwhen: before", "agent: none", `steps:
+  - action: run-script
+    command: echo warming up; exit 3
+  - action: run-script
+    command: echo lint error in a.ts >&2; exit 1
+    fail_on_error: true
+    message: Lint failed
+  - action: run-script
+    command: touch never.txt`));
+    const run = makeRun([]);
+    const runner = new AgentRunner({ ...DEFAULT_CONFIG, projectDir: repo });
+
+    const outcome = await HookEngine.load(repo).fire("git-commit", "before", { run, cwd: repo, runner });
+
+    assert.equal(outcome.blocked, true);
+    assert.match(outcome.feedback, /Hook test failed: Lint failed\nlint error in a\.ts/);
+    assert.deepEqual(run.hooks[0].steps.map((s) => s.status), ["failed", "failed"]);
+    assert.equal(run.hooks[0].blocking, true);
+  });
+
+  it("only fires agent-complete hooks for their agents, and runs agent steps", async () => {
+    fake = installFakeKiro({ compound: ["noted"] });
+    writeHook(repo, "post-review.md", readFileSync(join(ROOT, ".kiro", "hooks", "post-review.md"), "utf-8"));
+    const engine = HookEngine.load(repo);
+    const run = makeRun([]);
+    const runner = new AgentRunner({ ...DEFAULT_CONFIG, projectDir: repo });
+
+    await engine.fire("agent-complete", "after", { run, cwd: repo, runner, agent: "tester" });
+    assert.equal(run.hooks.length, 0);
+
+    await engine.fire("agent-complete", "after", { run, cwd: repo, runner, agent: "reviewer", output: "[HIGH] src/api.ts:3 — token is logged" });
+    assert.equal(run.hooks.length, 1);
+    assert.deepEqual(run.hooks[0].steps.map((s) => [s.action, s.status]), [
+      ["invoke-agent", "passed"], ["conditional-update", "skipped"], ["append-log", "skipped"],
+    ]);
+    const [call] = fake.calls();
+    assert.equal(call.agent, "compound");
+    assert.match(call.prompt, /reviewer agent just completed[\s\S]*COMPLETED AGENT: reviewer\n\nREVIEWER OUTPUT:\n\[HIGH\] src\/api\.ts:3 — token is logged$/);
+  });
+
+  it("retries a story whose pre-commit hook fails, with the hook output as feedback", async () => {
+    fake = installFakeKiro({
+      developer: ["ok", { output: "fixed", files: { "fixed.txt": "ok\n" } }],
+      verifier: ["STATUS: done"],
+    });
+    writeHook(repo, "pre-commit.md", hookFile("event: git-commit\nwhen: before", "agent: none", `steps:
+  - action: run-script
+    command: test -f fixed.txt || { echo "fixed.txt missing"; exit 1; }
+    fail_on_error: true`));
+    const run = makeRun([makeStory("a")]);
+    git(repo, "checkout", "-q", "-b", run.branch);
+
+    await new RalphLoop(run, { agent: "developer", role: "implement" }, { projectDir: repo }, {
+      hooks: HookEngine.load(repo),
+    }).execute();
+
+    const [story] = run.stories;
+    assert.equal(story.status, "done");
+    assert.equal(story.retryCount, 1);
+    assert.equal(git(repo, "log", "-1", "--format=%s"), "feat(a): Story a");
+    const devPrompts = fake.calls().filter((c) => c.agent === "developer").map((c) => c.prompt);
+    assert.match(devPrompts[1], /Hook test failed\nfixed\.txt missing/);
+    assert.deepEqual(run.hooks.map((h) => h.status), ["failed", "passed"]);
+  });
+});
@@ -0,0 +1,296 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { WorkflowOrchestrator } from "../src/orchestrator.js";
+import { formatPlan } from "../src/plan.js";
+import { ReviewDecision, StepReview, WorkflowRun } from "../src/types.js";
+import { FakeKiro, git, installFakeKiro, makeRepo, makeRun, makeStory, writeJson } from "./helpers.js";
+
+const PLAN = "```json\n" + JSON.stringify([
+  { id: "model", title: "Add model", description: "d", acceptance_criteria: ["model exists"] },
+  { id: "api", title: "Add API", description: "d", acceptance_criteria: ["api works"], depends_on: ["model"] },
+]) + "\n```";
+
+function readState(repo: string, id: string): WorkflowRun {
+  return JSON.parse(readFileSync(join(repo, ".kiro", ".workflows", `${id}.json`), "utf-8"));
+}
+
+describe("WorkflowOrchestrator", () => {
+  let repo: string;
+  let fake: FakeKiro | undefined;
+
+  beforeEach(() => {
+    repo = makeRepo();
+  });
+
+  afterEach(() => {
+    fake?.restore();
+    fake = undefined;
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("plans, loops and persists a complete feature-dev run", async () => {
+    fake = installFakeKiro({ planner: [PLAN], verifier: ["STATUS: done"] });
+
+    const run = await new WorkflowOrchestrator({ projectDir: repo, verbose: true }).run("feature-dev", "Add things");
+
+    assert.equal(run.status, "done");
+    assert.deepEqual(run.stories.map((s) => [s.id, s.status]), [["model", "done"], ["api", "done"]]);
+    assert.match(git(repo, "branch", "--show-current"), /^workflow\/feature-dev\/\d+$/);
+
+    const saved = readState(repo, run.id);
+    assert.equal(saved.status, "done");
+    assert.equal(saved.currentStep, 5);
+    assert.deepEqual(saved.stories.map((s) => s.status), ["done", "done"]);
+
+    const transcript = readdirSync(join(repo, ".kiro", ".workflows", run.id));
+    assert.equal(transcript.length, fake.calls().length);
+  });
+
+  it("reports the run as typed events, also as an async iterator", async () => {
+    fake = installFakeKiro({ planner: [PLAN], verifier: ["STATUS: retry\nISSUES:\n- no tests", "STATUS: done"] });
+    const wf = new WorkflowOrchestrator({ projectDir: repo }, { ui: false });
+    const verified: string[] = [];
+    wf.events.on("story:verified", ({ story }) => verified.push(story.id));
+    const streamed = (async () => {
+      const types: string[] = [];
+      for await (const event of wf.events) types.push(event.type);
+      return types;
+    })();
+
+    const run = await wf.run("feature-dev", "Add things");
+    const types = await streamed;
+
+    assert.equal(wf.ui, undefined);
+    assert.deepEqual(verified, ["model", "api"]);
+    assert.equal(types[0], "run:start");
+    assert.equal(types[types.length - 1], "run:end");
+    const lifecycle = types.filter((t) => t.startsWith("story:") || t.startsWith("step:"));
+    assert.deepEqual(lifecycle.slice(0, 8), [
+      "step:start", "step:end",
+      "step:start", "story:start", "story:failed", "story:start", "story:verified", "story:start",
+    ]);
+    assert.equal(types.filter((t) => t === "agent:call").length, fake.calls().length);
+    assert.equal(run.status, "done");
+  });
+
+  it("takes stories from a prd.json, skips planning and marks them passed", async () => {
+    fake = installFakeKiro({ verifier: ["STATUS: done"] });
+    const prd = join(repo, "prd.json");
+    writeJson(prd, {
+      title: "Shared plan",
+      stories: [
+        { id: "model", title: "Add model", description: "d", acceptance_criteria: ["model exists"], passes: true },
+        { id: "api", title: "Add API", description: "d", acceptance_criteria: ["api works"], passes: false },
+      ],
+    });
+
+    const run = await new WorkflowOrchestrator({ projectDir: repo, verbose: true })
+      .run("feature-dev", "", { source: { kind: "prd", path: prd } });
+
+    assert.equal(run.status, "done");
+    assert.equal(run.task, "Shared plan");
+    const agents = fake.calls().map((c) => c.agent);
+    assert.ok(!agents.includes("planner"));
+    assert.equal(agents.filter((a) => a === "developer").length, 1);
+    assert.deepEqual(JSON.parse(readFileSync(prd, "utf-8")).stories.map((s: any) => s.passes), [true, true]);
+    assert.deepEqual(readState(repo, run.id).source, { kind: "prd", path: prd });
+  });
+
+  it("fails the run when the planner output has no stories", async () => {
+    fake = installFakeKiro({ planner: ["Sorry, I can't plan this."] });
+
+    const run = await new WorkflowOrchestrator({ projectDir: repo, verbose: true }).run("feature-dev", "Add things");
+
+    assert.equal(run.status, "failed");
+    assert.equal(readState(repo, run.id).status, "failed");
+    assert.deepEqual(fake.calls().map((c) => c.agent), ["planner"]);
+  });
+
+  it("refuses to start on a dirty tree without touching git", async () => {
+    fake = installFakeKiro({ planner: [PLAN] });
+    writeFileSync(join(repo, "README.md"), "# changed\n");
+
+    await assert.rejects(
+      new WorkflowOrchestrator({ projectDir: repo }, { ui: false }).run("feature-dev", "Add things"),
+      /Refusing to start the run[\s\S]*M README\.md[\s\S]*--allow-dirty/,
+    );
+    assert.equal(git(repo, "branch", "--show-current"), "main");
+    assert.equal(fake.calls().length, 0);
+  });
+
+  it("names the run branch from the configured template", async () => {
+    fake = installFakeKiro({ planner: [PLAN], verifier: ["STATUS: done"] });
+    writeJson(join(repo, ".kiro", "workflow-git.json"), { branchTemplate: "kiro/{workflow}/{task}-{id}" });
+    git(repo, "add", "-A");
+    git(repo, "commit", "-qm", "Configure branches");
+
+    const run = await new WorkflowOrchestrator({ projectDir: repo }, { ui: false }).run("feature-dev", "Add things");
+
+    assert.equal(run.branch, `kiro/feature-dev/add-things-${run.id}`);
+    assert.equal(git(repo, "branch", "--show-current"), run.branch);
+  });
+
+  it("resumes a run at its saved step and skips done stories", async () => {
+    fake = installFakeKiro({ verifier: ["STATUS: done"] });
+    git(repo, "branch", "workflow/feature-dev/1");
+    writeJson(join(repo, ".kiro", ".workflows", "saved-1.json"), makeRun(
+      [makeStory("model", { status: "done" }), makeStory("api", { status: "running" })],
+      { id: "saved-1", branch: "workflow/feature-dev/1", iteration: 2, currentStep: 1 },
+    ));
+
+    const run = await new WorkflowOrchestrator({ projectDir: repo, verbose: true }).resume("saved-1");
+
+    assert.equal(run.status, "done");
+    assert.equal(git(repo, "branch", "--show-current"), "workflow/feature-dev/1");
+    const agents = fake.calls().map((c) => c.agent);
+    assert.ok(!agents.includes("planner"));
+    assert.equal(agents.filter((a) => a === "developer").length, 1);
+    assert.match(fake.calls()[0].prompt, /ID: api/);
+  });
+
+  it("interrupt() cancels the agent call, saves the run as interrupted and can resume", async () => {
+    fake = installFakeKiro({ planner: [PLAN], developer: [{ output: "", delayMs: 30_000 }, "ok"], verifier: ["STATUS: done"] });
+    const wf = new WorkflowOrchestrator({ projectDir: repo }, { ui: false, handleSignals: false });
+    wf.events.on("agent:call", ({ agent }) => {
+      if (agent === "developer") setTimeout(() => wf.interrupt(), 200);
+    });
+
+    const startedAt = Date.now();
+    const run = await wf.run("feature-dev", "Add things");
+
+    assert.ok(Date.now() - startedAt < 10_000, "the hanging agent was not cancelled");
+    assert.equal(run.status, "interrupted");
+    const saved = readState(repo, run.id);
+    assert.equal(saved.status, "interrupted");
+    assert.equal(saved.currentStep, 1);
+    assert.equal(saved.iteration, 0);
+    assert.deepEqual(saved.stories.map((s) => s.status), ["pending", "pending"]);
+    assert.equal(fake.calls().filter((c) => c.agent === "verifier").length, 0);
+
+    const resumed = await new WorkflowOrchestrator({ projectDir: repo }, { ui: false }).resume(run.id);
+    assert.equal(resumed.status, "done");
+  });
+
+  it("pauses after planning to re-plan, edit and approve the stories", async () => {
+    const merged = JSON.stringify([{ id: "all", title: "Everything", description: "d", acceptance_criteria: ["works"] }]);
+    fake = installFakeKiro({ planner: [PLAN, merged], verifier: ["STATUS: done"] });
+    const wf = new WorkflowOrchestrator({ projectDir: repo, reviewPlan: true }, { ui: false, handleSignals: false });
+    const reviews: { stories: string[]; error?: string }[] = [];
+    const decisions: ((review: StepReview) => ReviewDecision)[] = [
+      () => ({ action: "replan", instructions: "Merge everything into one story" }),
+      () => ({ action: "edit", plan: "[]", format: "json" }),
+      ({ run }) => ({
+        action: "edit",
+        format: "yaml",
+        plan: formatPlan(run.stories, "yaml") + "- id: docs\n  title: Write docs\n  depends_on: [all]\n",
+      }),
+      () => ({ action: "continue" }),
+    ];
+    wf.onReview = async (review) => {
+      reviews.push({ stories: review.run.stories.map((s) => s.id), error: review.error });
+      return decisions.shift()!(review);
+    };
+
+    const run = await wf.run("feature-dev", "Add things");
+
+    assert.deepEqual(reviews, [
+      { stories: ["model", "api"], error: undefined },
+      { stories: ["all"], error: undefined },
+      { stories: ["all"], error: "Planner output parsed but is not a non-empty array" },
+      { stories: ["all", "docs"], error: undefined },
+    ]);
+    const plannerPrompts = fake.calls().filter((c) => c.agent === "planner").map((c) => c.prompt);
+    assert.match(plannerPrompts[1], /"id": "api"[\s\S]*REVIEWER'S INSTRUCTIONS: Merge everything into one story/);
+    assert.equal(run.status, "done");
+    assert.deepEqual(run.stories.map((s) => [s.id, s.status]), [["all", "done"], ["docs", "done"]]);
+  });
+
+  it("stops at a pause nobody answers, and resume carries on after it", async () => {
+    fake = installFakeKiro({ planner: [PLAN], verifier: ["STATUS: done"] });
+    await assert.rejects(
+      new WorkflowOrchestrator({ projectDir: repo, pauseAfter: ["deploy"] }, { ui: false }).run("feature-dev", "x"),
+      /--pause-after deploy matches no step of feature-dev/,
+    );
+
+    const run = await new WorkflowOrchestrator({ projectDir: repo, pauseAfter: ["planner"] }, { ui: false, handleSignals: false })
+      .run("feature-dev", "Add things");
+
+    assert.equal(run.status, "interrupted");
+    assert.equal(readState(repo, run.id).currentStep, 1);
+    assert.equal(fake.calls().filter((c) => c.agent === "developer").length, 0);
+
+    const resumed = await new WorkflowOrchestrator({ projectDir: repo }, { ui: false }).resume(run.id);
+    assert.equal(resumed.status, "done");
+    assert.equal(fake.calls().filter((c) => c.agent === "planner").length, 1);
+  });
+
+  it("rolls back a done story's commits and sets it back to pending", async () => {
+    fake = installFakeKiro({
+      planner: [PLAN],
+      developer: [{ output: "ok", files: { "model.txt": "model" } }, { output: "ok", files: { "api.txt": "api" } }],
+      verifier: ["STATUS: done"],
+    });
+    const wf = new WorkflowOrchestrator({ projectDir: repo }, { ui: false });
+    const run = await wf.run("feature-dev", "Add things");
+    assert.equal(run.status, "done");
+
+    const { commit, dependents } = wf.rollback(run.id, "model");
+
+    assert.equal(commit, git(repo, "rev-parse", "HEAD"));
+    assert.equal(git(repo, "log", "-1", "--format=%s"), "Revert model: Add model");
+    assert.deepEqual(dependents, ["api"]);
+    assert.ok(!existsSync(join(repo, "model.txt")));
+    assert.ok(existsSync(join(repo, "api.txt")));
+    const saved = readState(repo, run.id);
+    assert.deepEqual(saved.stories.map((s) => s.status), ["pending", "done"]);
+    assert.throws(() => wf.rollback(run.id, "model"), /model is pending/);
+  });
+
+  it("turns blocking review findings into follow-up stories", async () => {
+    fake = installFakeKiro({
+      planner: [PLAN],
+      verifier: ["STATUS: done"],
+      reviewer: ["[BLOCKING] src/api.ts:3 — token is logged", "No findings."],
+    });
+
+    const run = await new WorkflowOrchestrator({ projectDir: repo, verbose: true }).run("feature-dev", "Add things");
+
+    const followUp = run.stories.find((s) => s.id === "review-r1-1");
+    assert.equal(followUp?.status, "done");
+    assert.match(followUp!.description, /token is logged/);
+    assert.equal(fake.calls().filter((c) => c.agent === "reviewer").length, 2);
+    assert.equal(run.findings[0].severity, "high");
+  });
+
+  it("numbers follow-up stories past the ones a resumed run already has", async () => {
+    fake = installFakeKiro({ verifier: ["STATUS: done"], reviewer: ["[HIGH] src/api.ts:9 — no rate limit", "No findings."] });
+    git(repo, "branch", "workflow/feature-dev/1");
+    writeJson(join(repo, ".kiro", ".workflows", "saved-1.json"), makeRun(
+      [makeStory("model", { status: "done" }), makeStory("review-r1-1", { status: "done" })],
+      { id: "saved-1", branch: "workflow/feature-dev/1", currentStep: 3 },
+    ));
+
+    const run = await new WorkflowOrchestrator({ projectDir: repo, verbose: true }).resume("saved-1");
+
+    assert.deepEqual(run.stories.map((s) => [s.id, s.status]), [["model", "done"], ["review-r1-1", "done"], ["review-r2-1", "done"]]);
+    assert.match(run.stories[2].description, /no rate limit/);
+  });
+
+  it("runs offline with the scripted backend", async () => {
+    writeJson(join(repo, ".kiro", "fixtures", "run.json"), [
+      { agent: "planner", output: PLAN },
+      { agent: "verifier", output: "STATUS: done" },
+      { agent: "*", output: "ok" },
+    ]);
+    git(repo, "add", "-A");
+    git(repo, "commit", "-qm", "Add fixtures");
+
+    const run = await new WorkflowOrchestrator({ projectDir: repo, verbose: true, backend: "scripted" })
+      .run("feature-dev", "Add things");
+
+    assert.equal(run.status, "done");
+    assert.ok(existsSync(join(repo, ".kiro", ".workflows", run.id)));
+  });
+});
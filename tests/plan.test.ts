@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractJsonArray, formatPlan, parsePlan, parseRawStories, parseStories } from "../src/plan.js";
+
+describe("extractJsonArray", () => {
+  it("returns the first balanced array", () => {
+    assert.equal(extractJsonArray('noise [1, [2, 3]] more [4]'), "[1, [2, 3]]");
+  });
+
+  it("returns null when there is no array", () => {
+    assert.equal(extractJsonArray("no brackets here"), null);
+  });
+
+  it("returns null when the array is unbalanced", () => {
+    assert.equal(extractJsonArray("[1, [2, 3]"), null);
+  });
+});
+
+describe("parseRawStories", () => {
+  it("maps snake_case and camelCase fields", () => {
+    const stories = parseRawStories(JSON.stringify([
+      { id: "a", title: "A", description: "do a", acceptance_criteria: ["x"] },
+      { story_id: "b", name: "B", acceptanceCriteria: ["y"] },
+    ]), 4);
+
+    assert.deepEqual(stories.map((s) => [s.id, s.title, s.acceptanceCriteria]), [
+      ["a", "A", ["x"]],
+      ["b", "B", ["y"]],
+    ]);
+    assert.ok(stories.every((s) => s.status === "pending" && s.retryCount === 0 && s.maxRetries === 4));
+  });
+
+  it("tolerates trailing commas", () => {
+    const stories = parseRawStories('[{"id": "a", "title": "A",},]', 3);
+    assert.equal(stories[0].id, "a");
+  });
+
+  it("rejects an empty array", () => {
+    assert.throws(() => parseRawStories("[]", 3), /non-empty array/);
+  });
+
+  it("rejects invalid JSON", () => {
+    assert.throws(() => parseRawStories("[{oops}]", 3), /Failed to parse stories JSON/);
+  });
+
+  it("sorts stories so dependencies come first", () => {
+    const stories = parseRawStories(JSON.stringify([
+      { id: "ui", depends_on: ["api"] },
+      { id: "api", depends_on: ["db"] },
+      { id: "db" },
+    ]), 3);
+    assert.deepEqual(stories.map((s) => s.id), ["db", "api", "ui"]);
+  });
+
+  it("rejects duplicate ids", () => {
+    assert.throws(
+      () => parseRawStories(JSON.stringify([{ id: "a" }, { id: "b" }, { id: "a" }]), 3),
+      /Duplicate story ids: a/,
+    );
+  });
+
+  it("drops dependencies on stories that were not planned", () => {
+    const [story] = parseRawStories(JSON.stringify([{ id: "a", depends_on: ["ghost"] }]), 3);
+    assert.deepEqual(story.dependsOn, []);
+  });
+
+  it("rejects dependency cycles", () => {
+    assert.throws(
+      () => parseRawStories(JSON.stringify([
+        { id: "a", depends_on: ["b"] },
+        { id: "b", depends_on: ["a"] },
+      ]), 3),
+      /cycle: a → b → a/,
+    );
+  });
+});
+
+describe("parseStories", () => {
+  it("reads a fenced JSON block surrounded by prose", () => {
+    const output = 'Here is the plan:\n```json\n[{"id": "a", "title": "A"}]\n```\nLet me know.';
+    assert.deepEqual(parseStories(output, 3).map((s) => s.id), ["a"]);
+  });
+
+  it("throws with a preview when there is no array", () => {
+    assert.throws(() => parseStories("I could not plan this.", 3), /did not output a valid JSON story array/);
+  });
+});
+
+describe("formatPlan / parsePlan", () => {
+  const stories = parseRawStories(JSON.stringify([
+    { id: "db", title: "Schema: users", description: "Tables for:\n- users\n- sessions\n", acceptance_criteria: ["migrates", "#1 priority"] },
+    { id: "api", title: "API", description: "", acceptance_criteria: [], depends_on: ["db"] },
+  ]), 3);
+
+  for (const format of ["json", "yaml"] as const) {
+    it(`reads its own ${format} back unchanged`, () => {
+      assert.deepEqual(parsePlan(formatPlan(stories, format), format, 3), stories);
+    });
+  }
+
+  it("validates an edited plan like planner output", () => {
+    assert.throws(() => parsePlan("- id: a\n  depends_on: [b]\n- id: b\n  depends_on: [a]\n", "yaml", 3), /cycle/);
+    assert.throws(() => parsePlan("a: 1\n  b: 2\n", "yaml", 3), /Failed to parse stories YAML: YAML line 2/);
+  });
+});
@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { RalphLoop } from "../src/loop/ralph.js";
+import { FakeKiro, git, installFakeKiro, makeRepo, makeRun, makeStory, writeJson } from "./helpers.js";
+
+const IMPLEMENT = { agent: "developer", role: "implement" } as const;
+
+describe("RalphLoop", () => {
+  let repo: string;
+  let fake: FakeKiro | undefined;
+
+  beforeEach(() => {
+    repo = makeRepo();
+    // Story commits never go to main
+    git(repo, "checkout", "-q", "-b", "workflow/test");
+  });
+
+  afterEach(() => {
+    fake?.restore();
+    fake = undefined;
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("retries with verifier feedback without spending an iteration", async () => {
+    fake = installFakeKiro({
+      verifier: ["STATUS: retry\nISSUES:\n- missing unit test", "STATUS: done"],
+    });
+    const run = makeRun([makeStory("a")]);
+
+    await new RalphLoop(run, IMPLEMENT, { projectDir: repo }).execute();
+
+    const [story] = run.stories;
+    assert.equal(story.status, "done");
+    assert.equal(story.retryCount, 1);
+    assert.equal(run.iteration, 1);
+    assert.equal(run.status, "done");
+
+    const devPrompts = fake.calls().filter((c) => c.agent === "developer").map((c) => c.prompt);
+    assert.equal(devPrompts.length, 2);
+    assert.match(devPrompts[1], /VERIFY FEEDBACK[\s\S]*missing unit test/);
+    assert.equal(git(repo, "log", "-1", "--format=%s"), "feat(a): Story a");
+  });
+
+  it("fails a story after maxRetries and blocks its dependents", async () => {
+    fake = installFakeKiro({ verifier: ["STATUS: retry\nISSUES:\n- broken"] });
+    const run = makeRun([
+      makeStory("a", { maxRetries: 2 }),
+      makeStory("b", { dependsOn: ["a"] }),
+    ]);
+
+    await new RalphLoop(run, IMPLEMENT, { projectDir: repo }).execute();
+
+    assert.deepEqual(run.stories.map((s) => s.status), ["failed", "blocked"]);
+    assert.equal(run.status, "failed");
+    assert.equal(fake.calls().filter((c) => c.agent === "developer").length, 2);
+  });
+
+  it("stops when maxIterations is exhausted", async () => {
+    fake = installFakeKiro({ verifier: ["STATUS: done"] });
+    const run = makeRun([makeStory("a"), makeStory("b"), makeStory("c")]);
+
+    await new RalphLoop(run, IMPLEMENT, { projectDir: repo, maxIterations: 2 }).execute();
+
+    assert.deepEqual(run.stories.map((s) => s.status), ["done", "done", "pending"]);
+    assert.equal(run.iteration, 2);
+    assert.equal(run.status, "failed");
+  });
+
+  it("asks the verifier to clarify an unclear verdict", async () => {
+    fake = installFakeKiro({ verifier: ["Everything seems mostly fine.", "STATUS: done"] });
+    const run = makeRun([makeStory("a")]);
+
+    await new RalphLoop(run, IMPLEMENT, { projectDir: repo }).execute();
+
+    const verifierPrompts = fake.calls().filter((c) => c.agent === "verifier").map((c) => c.prompt);
+    assert.equal(verifierPrompts.length, 2);
+    assert.match(verifierPrompts[1], /did not give a clear verdict/);
+    assert.equal(run.stories[0].status, "done");
+    assert.equal(run.stories[0].retryCount, 0);
+    assert.equal(run.stories[0].verifyResult?.verdict, "pass");
+  });
+
+  it("sends a story back on a failing quality gate without calling the verifier", async () => {
+    fake = installFakeKiro({
+      developer: ["ok", { output: "fixed", files: { "fixed.txt": "ok\n" } }],
+      verifier: ["STATUS: done"],
+    });
+    writeJson(join(repo, ".kiro", "workflow-gates.json"), {
+      test: "test -f fixed.txt || { echo 'missing fixed.txt'; exit 1; }",
+    });
+    const run = makeRun([makeStory("a")]);
+
+    await new RalphLoop(run, IMPLEMENT, { projectDir: repo }).execute();
+
+    assert.equal(run.stories[0].status, "done");
+    assert.equal(run.stories[0].retryCount, 1);
+    const calls = fake.calls();
+    assert.deepEqual(calls.map((c) => c.agent), ["developer", "developer", "verifier"]);
+    assert.match(calls[1].prompt, /Quality gate "test" failed[\s\S]*missing fixed\.txt/);
+    assert.match(calls[2].prompt, /Already Checked:[\s\S]*test -f fixed\.txt/);
+    assert.doesNotMatch(calls[2].prompt, /Run the test suite/);
+  });
+
+  it("runs gates in parallel worktrees against the project's installed dependencies", async () => {
+    fake = installFakeKiro({ verifier: ["STATUS: done"] });
+    writeFileSync(join(repo, ".gitignore"), "node_modules/\n");
+    git(repo, "add", ".gitignore");
+    git(repo, "commit", "-qm", "Ignore dependencies");
+    mkdirSync(join(repo, "node_modules", "dep"), { recursive: true });
+    writeFileSync(join(repo, "node_modules", "dep", "index.js"), "module.exports = 1;\n");
+    writeJson(join(repo, ".kiro", "workflow-gates.json"), { test: "node -e \"require('dep')\"" });
+    const exclude = join(repo, ".git", "info", "exclude");
+    const excluded = readFileSync(exclude, "utf-8");
+    const run = makeRun([makeStory("a"), makeStory("b")]);
+
+    await new RalphLoop(run, IMPLEMENT, { projectDir: repo, parallel: 2 }).execute();
+
+    assert.deepEqual(run.stories.map((s) => s.status), ["done", "done"]);
+    assert.ok(new Set(fake.calls().map((c) => c.cwd)).size > 1);
+    assert.equal(git(repo, "ls-files", "node_modules"), "");
+    assert.equal(readFileSync(exclude, "utf-8"), excluded);
+  });
+
+  it("resets a failed attempt to the story's checkpoint before retrying", async () => {
+    writeFileSync(join(repo, "notes.txt"), "mine\n");
+    fake = installFakeKiro({
+      developer: [
+        { output: "ok", files: { "half.txt": "wip", "README.md": "# broken\n" } },
+        { output: "ok", files: { "done.txt": "done" } },
+      ],
+      verifier: ["STATUS: retry\nISSUES:\n- broken", "STATUS: done"],
+    });
+    const run = makeRun([makeStory("a")]);
+    const head = git(repo, "rev-parse", "HEAD");
+
+    await new RalphLoop(run, IMPLEMENT, { projectDir: repo }).execute();
+
+    const [story] = run.stories;
+    assert.equal(story.status, "done");
+    assert.equal(story.checkpoint, head);
+    assert.equal(story.commit, git(repo, "rev-parse", "HEAD"));
+    assert.ok(!existsSync(join(repo, "half.txt")));
+    assert.ok(existsSync(join(repo, "done.txt")));
+    assert.equal(readFileSync(join(repo, "README.md"), "utf-8"), "# test\n");
+    assert.equal(readFileSync(join(repo, "notes.txt"), "utf-8"), "mine\n");
+  });
+
+  it("stashes a failed story's changes with onFail: stash", async () => {
+    fake = installFakeKiro({
+      developer: [{ output: "ok", files: { "half.txt": "wip" } }],
+      verifier: ["STATUS: retry\nISSUES:\n- broken"],
+    });
+    const run = makeRun([makeStory("a", { maxRetries: 1 })]);
+
+    await new RalphLoop(run, IMPLEMENT, { projectDir: repo, onFail: "stash" }).execute();
+
+    assert.equal(run.stories[0].status, "failed");
+    assert.ok(!existsSync(join(repo, "half.txt")));
+    assert.match(git(repo, "stash", "list"), /kiro-workflow test-run a attempt 1/);
+    git(repo, "stash", "pop");
+    assert.equal(readFileSync(join(repo, "half.txt"), "utf-8"), "wip");
+  });
+
+  it("keeps changes that were uncommitted before the attempt when undoing it", async () => {
+    for (const onFail of ["reset", "stash"] as const) {
+      const dir = makeRepo();
+      git(dir, "checkout", "-q", "-b", "workflow/test");
+      writeFileSync(join(dir, "keep.txt"), "v1\n");
+      git(dir, "add", "keep.txt");
+      git(dir, "commit", "-qm", "Add keep.txt");
+      writeFileSync(join(dir, "keep.txt"), "v2\n");
+      writeFileSync(join(dir, "README.md"), "# staged\n");
+      git(dir, "add", "README.md");
+      fake = installFakeKiro({
+        developer: [{ output: "ok", files: { "README.md": "# broken\n", "half.txt": "wip" } }],
+        verifier: ["STATUS: retry\nISSUES:\n- broken"],
+      });
+      const run = makeRun([makeStory("a", { maxRetries: 1 })]);
+
+      await new RalphLoop(run, IMPLEMENT, { projectDir: dir, onFail }).execute();
+
+      assert.equal(readFileSync(join(dir, "keep.txt"), "utf-8"), "v2\n", onFail);
+      assert.equal(readFileSync(join(dir, "README.md"), "utf-8"), "# staged\n", onFail);
+      assert.equal(git(dir, "diff", "--cached", "--name-only"), "README.md", onFail);
+      assert.ok(!existsSync(join(dir, "half.txt")), onFail);
+      if (onFail === "stash") {
+        assert.match(git(dir, "stash", "show", "--include-untracked", "--name-only"), /half\.txt/);
+      }
+      fake.restore();
+      fake = undefined;
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps a failed attempt's changes with onFail: keep", async () => {
+    fake = installFakeKiro({
+      developer: [{ output: "ok", files: { "half.txt": "wip" } }],
+      verifier: ["STATUS: retry\nISSUES:\n- broken"],
+    });
+    const run = makeRun([makeStory("a", { maxRetries: 1 })]);
+
+    await new RalphLoop(run, IMPLEMENT, { projectDir: repo, onFail: "keep" }).execute();
+
+    assert.equal(readFileSync(join(repo, "half.txt"), "utf-8"), "wip");
+  });
+
+  it("uses the step's agent, verifier and commit type", async () => {
+    fake = installFakeKiro({ "security-verifier": ["STATUS: done"] });
+    const run = makeRun([makeStory("a")]);
+    const step = { agent: "fixer", role: "fix", verifier: "security-verifier", commitType: "security" } as const;
+
+    await new RalphLoop(run, step, { projectDir: repo }).execute();
+
+    assert.deepEqual(fake.calls().map((c) => c.agent), ["fixer", "security-verifier"]);
+    assert.match(fake.calls()[0].prompt, /^You are fixing a single issue/);
+    assert.equal(git(repo, "log", "-1", "--format=%s"), "security(a): Story a");
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  DEFAULT_REPO_SETTINGS,
+  branchName,
+  commitChanges,
+  createRunBranch,
+  isDenied,
+  isProtectedBranch,
+  loadRepoSettings,
+  preflight,
+} from "../src/repo.js";
+import { git, makeRepo, writeJson } from "./helpers.js";
+
+describe("branchName", () => {
+  const now = new Date("2026-03-04T05:06:07Z");
+
+  it("fills in the placeholders", () => {
+    assert.equal(
+      branchName("kiro/{workflow}/{date}-{task}-{id}", { workflow: "bug-fix", id: "3f9a2c1b", task: "Fix the \"login\" 504s!", now }),
+      "kiro/bug-fix/2026-03-04-fix-the-login-504s-3f9a2c1b",
+    );
+    assert.equal(branchName(DEFAULT_REPO_SETTINGS.branchTemplate, { workflow: "feature-dev", id: "x", task: "", now }), `workflow/feature-dev/${now.getTime()}`);
+  });
+
+  it("rejects unknown placeholders", () => {
+    assert.throws(() => branchName("wf/{user}", { workflow: "w", id: "x", task: "" }), /Unknown placeholder \{user\}/);
+  });
+});
+
+describe("isDenied", () => {
+  const deny = [...DEFAULT_REPO_SETTINGS.deny, "tmp/", "*.sqlite", "!fixtures/*.sqlite"];
+
+  it("matches secret-looking files at any depth", () => {
+    assert.ok(isDenied(".env", deny));
+    assert.ok(isDenied("config/.env.production", deny));
+    assert.ok(isDenied("certs/server.pem", deny));
+    assert.ok(!isDenied(".env.example", deny));
+    assert.ok(!isDenied("src/env.ts", deny));
+  });
+
+  it("matches directories and honours negation", () => {
+    assert.ok(isDenied("tmp/cache/a.json", deny));
+    assert.ok(isDenied("data/app.sqlite", deny));
+    assert.ok(!isDenied("fixtures/app.sqlite", deny));
+  });
+});
+
+describe("isProtectedBranch", () => {
+  it("anchors patterns to the whole branch name", () => {
+    const settings = { ...DEFAULT_REPO_SETTINGS, protectedBranches: ["main", "release/*"] };
+    assert.ok(isProtectedBranch("main", settings));
+    assert.ok(isProtectedBranch("release/1.2", settings));
+    assert.ok(!isProtectedBranch("feature/main", settings));
+    assert.ok(!isProtectedBranch("workflow/feature-dev/1", settings));
+  });
+});
+
+describe("repository preflight and commits", () => {
+  let repo: string;
+
+  beforeEach(() => {
+    repo = makeRepo();
+  });
+
+  afterEach(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("reads .kiro/workflow-git.json, with run config taking precedence", () => {
+    writeJson(join(repo, ".kiro", "workflow-git.json"), { baseBranch: "develop", branchTemplate: "kiro/{id}", deny: ["*.log"] });
+
+    const settings = loadRepoSettings(repo, { branchTemplate: "mine/{id}" });
+
+    assert.equal(settings.baseBranch, "develop");
+    assert.equal(settings.branchTemplate, "mine/{id}");
+    assert.ok(settings.deny.includes(".env"));
+    assert.ok(settings.deny.includes("*.log"));
+  });
+
+  it("refuses a dirty tree and a protected run branch, listing every problem", () => {
+    writeFileSync(join(repo, "README.md"), "# changed\n");
+    writeFileSync(join(repo, "notes.txt"), "mine\n");
+
+    assert.throws(
+      () => preflight(repo, DEFAULT_REPO_SETTINGS, { branch: "main", allowDirty: false }),
+      (err: Error) => /main is protected/.test(err.message) && /M README\.md/.test(err.message) && /\?\? notes\.txt/.test(err.message),
+    );
+    assert.doesNotThrow(() => preflight(repo, DEFAULT_REPO_SETTINGS, { branch: "workflow/x", allowDirty: true }));
+  });
+
+  it("ignores run state and the run's own plan file", () => {
+    writeJson(join(repo, ".kiro", ".workflows", "abc.json"), {});
+    writeJson(join(repo, "prd.json"), {});
+
+    assert.doesNotThrow(() => preflight(repo, DEFAULT_REPO_SETTINGS, {
+      branch: "workflow/x",
+      allowDirty: false,
+      source: { kind: "prd", path: join(repo, "prd.json") },
+    }));
+  });
+
+  it("fails instead of staying on the current branch when the run branch can't be created", () => {
+    git(repo, "branch", "workflow/taken");
+
+    assert.throws(() => createRunBranch(repo, "workflow/taken", DEFAULT_REPO_SETTINGS), /Could not create branch workflow\/taken/);
+    assert.throws(() => createRunBranch(repo, "bad..name", DEFAULT_REPO_SETTINGS), /Invalid branch name/);
+    assert.equal(git(repo, "branch", "--show-current"), "main");
+  });
+
+  it("creates the run branch from the base branch", () => {
+    git(repo, "checkout", "-q", "-b", "develop");
+    writeFileSync(join(repo, "dev.txt"), "dev\n");
+    git(repo, "add", "-A");
+    git(repo, "commit", "-qm", "dev");
+    git(repo, "checkout", "-q", "main");
+
+    createRunBranch(repo, "workflow/x", { ...DEFAULT_REPO_SETTINGS, baseBranch: "develop" });
+
+    assert.equal(git(repo, "branch", "--show-current"), "workflow/x");
+    assert.equal(git(repo, "log", "-1", "--format=%s"), "dev");
+  });
+
+  it("commits without a shell, leaving secrets and run state out", () => {
+    git(repo, "checkout", "-q", "-b", "workflow/x");
+    writeFileSync(join(repo, "app.ts"), "export {};\n");
+    writeFileSync(join(repo, ".env"), "TOKEN=secret\n");
+    writeJson(join(repo, ".kiro", ".workflows", "abc.json"), {});
+    const message = `feat(a): Say "hi" for $(whoami) \`id\``;
+
+    const { skipped } = commitChanges(repo, message, DEFAULT_REPO_SETTINGS);
+
+    assert.deepEqual(skipped, [".env"]);
+    assert.equal(git(repo, "log", "-1", "--format=%s"), message);
+    assert.equal(git(repo, "show", "--name-only", "--format=", "HEAD"), "app.ts");
+    assert.match(git(repo, "status", "--porcelain"), /\?\? \.env/);
+  });
+
+  it("refuses to commit on a protected branch", () => {
+    writeFileSync(join(repo, "app.ts"), "export {};\n");
+
+    assert.throws(() => commitChanges(repo, "feat: x", DEFAULT_REPO_SETTINGS), /protected branch main/);
+    assert.equal(git(repo, "log", "--format=%s"), "init");
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chmodSync, rmSync, writeFileSync } from "fs";
+import { PassThrough } from "stream";
+import { join } from "path";
+import { TerminalReviewer } from "../src/review.js";
+import { StepReview } from "../src/types.js";
+import { makeRun, makeStory, tempDir } from "./helpers.js";
+
+/** Streams for the reviewer, answering each prompt with the next line. */
+function terminal(answers: string[]) {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  let text = "";
+  output.on("data", (chunk) => {
+    text += chunk;
+    if (/(> |: )$/.test(String(chunk)) && answers.length > 0) input.write(`${answers.shift()}\n`);
+  });
+  return { input, output, text: () => text };
+}
+
+function pause(overrides: Partial<StepReview> = {}): StepReview {
+  return {
+    run: makeRun([makeStory("model"), makeStory("api", { dependsOn: ["model"] })]),
+    step: { agent: "planner", role: "plan" },
+    index: 0,
+    canReplan: true,
+    signal: new AbortController().signal,
+    ...overrides,
+  };
+}
+
+describe("TerminalReviewer", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = tempDir();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("shows the stories and asks for instructions to re-plan", async () => {
+    const term = terminal(["x", "r", "Split the API story"]);
+
+    const decision = await new TerminalReviewer(term).review(pause());
+
+    assert.deepEqual(decision, { action: "replan", instructions: "Split the API story" });
+    assert.match(term.text(), /Paused after planner \(plan\) — 2 stories/);
+    assert.match(term.text(), /2\. api — Story api {2}\(after model\)/);
+    assert.match(term.text(), /Choose one of: \[c\]ontinue {2}\[r\]e-plan/);
+  });
+
+  it("opens the plan in the editor and reopens a rejected edit", async () => {
+    // The fake editor appends a story, so every edit is a change
+    const editor = join(dir, "editor.sh");
+    writeFileSync(editor, `#!/bin/sh\nprintf -- '- id: docs\\n' >> "$1"\n`);
+    chmodSync(editor, 0o755);
+    const reviewer = new TerminalReviewer({ ...terminal(["y", "y"]), editor });
+
+    const first = await reviewer.review(pause());
+    assert.equal(first.action, "edit");
+    assert.match((first as any).plan, /- id: model\n {2}title: Story model[\s\S]*- id: docs\n$/);
+
+    const second = await reviewer.review(pause({ error: "Story docs has no title" }));
+    assert.match((second as any).plan, /- id: docs\n- id: docs\n$/);
+  });
+
+  it("stops when the run is interrupted while waiting", async () => {
+    const abort = new AbortController();
+    setTimeout(() => abort.abort(), 50);
+
+    const decision = await new TerminalReviewer(terminal([])).review(pause({ signal: abort.signal }));
+
+    assert.deepEqual(decision, { action: "stop" });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { checkTasks, loadSource, parsePrd, parseTasks, writeSourceStatus } from "../src/sources.js";
+import { makeStory, tempDir } from "./helpers.js";
+
+const TASKS = `# Implementation Plan: OAuth
+
+- [x] 1. Set up provider config
+  - Reads client ID from env
+  - _Requirements: 1.1_
+
+- [ ] 2. Callback endpoint
+  - [ ] 2.1 Exchange the code for a token
+    - Invalid codes return 401
+  - [ ] 2.2 Create the session cookie
+    - _Depends on: 2.1_
+
+- [ ] 3. Logout
+  - Depends on: 2
+`;
+
+describe("parsePrd", () => {
+  it("maps acceptance_criteria and passes", () => {
+    const { title, stories } = parsePrd(JSON.stringify({
+      title: "Auth",
+      stories: [
+        { id: "a", title: "A", description: "d", acceptance_criteria: ["works"], passes: true },
+        { id: "b", title: "B", description: "d", acceptance_criteria: ["also works"] },
+      ],
+    }), 3);
+
+    assert.equal(title, "Auth");
+    assert.deepEqual(stories.map((s) => [s.id, s.status, s.acceptanceCriteria]), [
+      ["a", "done", ["works"]],
+      ["b", "pending", ["also works"]],
+    ]);
+  });
+
+  it("rejects a file without stories", () => {
+    assert.throws(() => parsePrd(`{"title": "x"}`, 3), /has no stories/);
+  });
+});
+
+describe("parseTasks", () => {
+  it("turns checkbox leaves into stories with criteria and dependencies", () => {
+    const stories = parseTasks(TASKS, 3);
+
+    assert.deepEqual(stories.map((s) => [s.id, s.status, s.dependsOn]), [
+      ["task-1", "done", []],
+      ["task-2-1", "pending", []],
+      ["task-2-2", "pending", ["task-2-1"]],
+      ["task-3", "pending", ["task-2-1", "task-2-2"]],
+    ]);
+    assert.deepEqual(stories[0].acceptanceCriteria, ["Reads client ID from env"]);
+    assert.equal(stories[1].title, "Exchange the code for a token");
+    assert.match(stories[1].description, /Part of: Callback endpoint/);
+    assert.deepEqual(stories[2].acceptanceCriteria, ["Create the session cookie"]);
+  });
+
+  it("rejects a tasks.md without checkboxes", () => {
+    assert.throws(() => parseTasks("### Task 1: Do it\n- step", 3), /no checkbox tasks/);
+  });
+});
+
+describe("checkTasks", () => {
+  it("ticks done tasks and groups whose sub-tasks are all done", () => {
+    const once = checkTasks(TASKS, new Set(["task-2-1"]));
+    assert.match(once, /- \[x\] 2\.1/);
+    assert.match(once, /- \[ \] 2\. Callback/);
+
+    const both = checkTasks(TASKS, new Set(["task-2-1", "task-2-2"]));
+    assert.match(both, /- \[x\] 2\. Callback/);
+    assert.match(both, /- \[ \] 3\. Logout/);
+  });
+});
+
+describe("spec sources", () => {
+  it("loads a spec directory and writes status back to tasks.md", () => {
+    const dir = join(tempDir(), "oauth");
+    mkdirSync(dir);
+    writeFileSync(join(dir, "tasks.md"), TASKS);
+    writeFileSync(join(dir, "requirements.md"), "# Requirements");
+    const source = { kind: "spec" as const, path: dir };
+
+    const { title, stories } = loadSource(source, 3);
+    assert.equal(title, "OAuth");
+    assert.match(stories[1].description, /requirements\.md/);
+
+    writeSourceStatus(source, [makeStory("task-3", { status: "done" }), makeStory("task-2-1", { status: "failed" })]);
+    const updated = readFileSync(join(dir, "tasks.md"), "utf-8");
+    assert.match(updated, /- \[x\] 3\. Logout/);
+    assert.match(updated, /- \[ \] 2\.1/);
+  });
+});
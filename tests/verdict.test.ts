@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatFeedback, parseVerdict } from "../src/loop/verdict.js";
+
+describe("parseVerdict", () => {
+  it("passes the verifier agent's STATUS: done protocol", () => {
+    const result = parseVerdict("STATUS: done\nVERIFIED:\n- [Login works] — curl returns 200");
+    assert.equal(result.verdict, "pass");
+    assert.deepEqual(result.criteria, [{ criterion: "Login works", passed: true, evidence: "curl returns 200" }]);
+  });
+
+  it("fails STATUS: retry and collects issues", () => {
+    const result = parseVerdict("**STATUS:** retry\nISSUES:\n- auth.test.ts fails");
+    assert.equal(result.verdict, "fail");
+    assert.deepEqual(result.issues, ["auth.test.ts fails"]);
+  });
+
+  it("understands the legacy PASS/FAIL protocol", () => {
+    const result = parseVerdict("FAIL: one criterion\n- ✅ PASS: a — ok\n- ❌ FAIL: b — missing");
+    assert.equal(result.verdict, "fail");
+    assert.deepEqual(result.criteria.map((c) => [c.criterion, c.passed]), [["a", true], ["b", false]]);
+  });
+
+  it("reads a JSON verdict", () => {
+    const result = parseVerdict('{"status": "done", "criteria": [{"criterion": "a", "passed": true, "evidence": "e"}]}');
+    assert.equal(result.verdict, "pass");
+    assert.equal(result.criteria[0].evidence, "e");
+  });
+
+  it("is unclear when no protocol matches", () => {
+    assert.equal(parseVerdict("Looks fine to me overall.").verdict, "unclear");
+  });
+
+  it("is unclear when a done status has a failed criterion", () => {
+    assert.equal(parseVerdict("STATUS: done\n- ❌ a — broken").verdict, "unclear");
+  });
+});
+
+describe("formatFeedback", () => {
+  it("lists failures before passes", () => {
+    const feedback = formatFeedback(parseVerdict("FAIL\n- ✅ PASS: a — ok\n- ❌ FAIL: b — missing"));
+    assert.equal(feedback, "❌ FAIL: b — missing\n✅ PASS: a");
+  });
+
+  it("falls back to the raw output", () => {
+    const raw = "STATUS: retry\nsomething vague";
+    assert.equal(formatFeedback(parseVerdict(raw)), raw);
+  });
+});